@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+'use strict';
+
+// stdout dành cho kết quả (bảng, CSV, JSON): tắt thông báo của dotenv và log INFO trừ khi được bật
+process.env.DOTENV_CONFIG_QUIET = process.env.DOTENV_CONFIG_QUIET || 'true';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'ERROR';
+
+const { run } = require('../dist/cli');
+
+run(process.argv.slice(2)).then(code => {
+    // Đợi stdout ghi xong rồi mới thoát (kết nối keep-alive có thể giữ tiến trình)
+    process.stdout.write('', () => process.exit(code));
+});
@@ -0,0 +1,111 @@
+import { AlertRule, AlertRuleEngine, MemoryAlertStateStore } from "./alert-rules";
+import { GA4Service } from "./ga.service";
+import { TelegramRouter } from "./telegram-router";
+import { TelegramApiError } from "./errors";
+import { logger } from "./utils/logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('AlertRuleEngine', () => {
+    let value: number;
+    let sendMessage: jest.Mock;
+    let engine: AlertRuleEngine;
+    let store: MemoryAlertStateStore;
+
+    const rule: AlertRule = { id: 'low-sessions', metric: 'sessions', comparison: '<', threshold: 100, cooldown: '6h', notifyResolved: true };
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: new Date('2024-05-10T08:00:00Z') });
+        value = 50;
+        sendMessage = jest.fn(async () => true);
+        store = new MemoryAlertStateStore();
+
+        const ga4Service = {
+            getDetailedReport: jest.fn(async () => ({
+                dimensionHeaders: [],
+                metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+                rows: [{ metricValues: [{ value: String(value) }] }]
+            }))
+        } as unknown as GA4Service;
+        const router = { forSeverity: () => ({ sendMessage }) } as unknown as TelegramRouter;
+        engine = new AlertRuleEngine(ga4Service, router, { rules: [rule], store, locale: 'en' });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it('gửi cảnh báo lần đầu vượt ngưỡng và không gửi lại trong cooldown', async () => {
+        const [first] = await engine.run();
+        expect(first).toMatchObject({ value: 50, breached: true, fired: true });
+
+        jest.setSystemTime(Date.now() + 5 * HOUR_MS);
+        const [second] = await engine.run();
+        expect(second).toMatchObject({ breached: true, fired: false });
+        expect(sendMessage).toHaveBeenCalledTimes(1);
+        expect(store.get(rule.id)?.lastFiredAt).toBe('2024-05-10T08:00:00.000Z');
+    });
+
+    it('gửi lại khi hết cooldown mà vẫn vượt ngưỡng', async () => {
+        await engine.run();
+
+        jest.setSystemTime(Date.now() + 6 * HOUR_MS);
+        const [result] = await engine.run();
+
+        expect(result.fired).toBe(true);
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+        expect(store.get(rule.id)?.lastFiredAt).toBe('2024-05-10T14:00:00.000Z');
+    });
+
+    it('không tính cooldown khi gửi thất bại', async () => {
+        sendMessage.mockResolvedValueOnce(false);
+        await engine.run();
+
+        const [result] = await engine.run();
+        expect(result.fired).toBe(true);
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('báo đã trở lại bình thường rồi cảnh báo ngay khi vượt ngưỡng lại', async () => {
+        await engine.run();
+
+        value = 150;
+        const [resolved] = await engine.run();
+        expect(resolved).toMatchObject({ breached: false, resolved: true });
+        expect(sendMessage).toHaveBeenCalledTimes(2);
+
+        value = 40;
+        const [fired] = await engine.run();
+        expect(fired.fired).toBe(true);
+        expect(sendMessage).toHaveBeenCalledTimes(3);
+    });
+
+    it('lỗi gửi khi bật throwOnError không dừng các quy tắc còn lại', async () => {
+        const error = jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        engine.addRules([{ ...rule, id: 'low-sessions-2' }]);
+        sendMessage.mockRejectedValueOnce(new TelegramApiError(403, 'Forbidden: bot was blocked by the user'));
+
+        const [failed, fired] = await engine.run();
+        expect(failed).toMatchObject({ breached: true, fired: false });
+        expect(fired).toMatchObject({ breached: true, fired: true });
+        expect(store.get(rule.id)?.lastFiredAt).toBeUndefined();
+        expect(error).toHaveBeenCalledWith('Lỗi khi gửi cảnh báo của quy tắc low-sessions:', expect.any(TelegramApiError));
+    });
+
+    it('start() bỏ qua lượt đến hạn khi lần chạy trước chưa xong', async () => {
+        let finish!: () => void;
+        const run = jest.spyOn(engine, 'run').mockImplementation(() => new Promise(resolve => {
+            finish = () => resolve([]);
+        }));
+
+        engine.start(1);
+        await jest.advanceTimersByTimeAsync(3 * 60 * 1000);
+        expect(run).toHaveBeenCalledTimes(1);
+
+        finish();
+        await jest.advanceTimersByTimeAsync(60 * 1000);
+        expect(run).toHaveBeenCalledTimes(2);
+        engine.stop();
+    });
+});
@@ -0,0 +1,380 @@
+import { logger } from "./utils/logger";
+import * as fs from 'fs';
+import { GA4Service } from "./ga.service";
+import { GA4FilterExpression } from "./ga.types";
+import { AlertSeverity, TelegramRouter } from "./telegram-router";
+import { TelegramService } from "./telegram.service";
+import { andGroup, collectFilterFields, inListFilter, stringFilter } from "./utils/filters";
+import { parseReport } from "./utils/report-parser";
+import { formatPeriod, parseDuration, parsePeriod } from "./utils/periods";
+import { escapeHtml } from "./utils/telegram-message";
+import { JsonFileStore } from "./utils/json-file-store";
+import { DEFAULT_LOCALE, getTranslator, Translator } from "./i18n";
+
+// Phép so sánh giá trị metric với ngưỡng
+export type AlertComparison = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+// Bộ lọc rút gọn: dimension → giá trị (khớp chính xác) hoặc danh sách giá trị
+export type AlertRuleFilter = Record<string, string | string[]>;
+
+/**
+ * Quy tắc cảnh báo theo ngưỡng, ví dụ "conversions từ google / cpc hôm qua < 20"
+ */
+export interface AlertRule {
+    // Định danh duy nhất, dùng để chống gửi trùng
+    id: string;
+    // Tên hiển thị trong cảnh báo (mặc định là id)
+    name?: string;
+    metric: string;
+    // Bộ lọc dimension: dạng rút gọn hoặc FilterExpression của GA4
+    filter?: AlertRuleFilter | GA4FilterExpression;
+    comparison: AlertComparison;
+    // Ngưỡng theo đơn vị của metric (tỷ lệ như engagementRate dùng 0.3 cho 30%)
+    threshold: number;
+    // Khoảng thời gian theo cú pháp parsePeriod: today, yesterday, 7d... (mặc định yesterday)
+    window?: string;
+    // Mức cảnh báo, dùng để định tuyến (mặc định 'warning')
+    severity?: AlertSeverity;
+    // Không gửi lại khi vẫn vượt ngưỡng trong khoảng này: số phút hoặc 30m, 6h, 1d (mặc định 1d)
+    cooldown?: string | number;
+    // Gửi thông báo khi metric trở lại bình thường (mặc định false)
+    notifyResolved?: boolean;
+    // Tắt tạm thời mà không xóa khỏi cấu hình
+    enabled?: boolean;
+}
+
+// Trạng thái của một quy tắc giữa các lần chạy
+export interface AlertRuleState {
+    firing: boolean;
+    // Thời điểm gửi cảnh báo gần nhất (ISO)
+    lastFiredAt?: string;
+    lastValue?: number;
+}
+
+/**
+ * Nơi lưu trạng thái quy tắc để không gửi lại cùng một cảnh báo ở mỗi lần chạy
+ */
+export interface AlertStateStore {
+    get(ruleId: string): AlertRuleState | undefined;
+    set(ruleId: string, state: AlertRuleState): void;
+}
+
+export class MemoryAlertStateStore implements AlertStateStore {
+    private states = new Map<string, AlertRuleState>();
+
+    get(ruleId: string): AlertRuleState | undefined {
+        return this.states.get(ruleId);
+    }
+
+    set(ruleId: string, state: AlertRuleState): void {
+        this.states.set(ruleId, state);
+    }
+}
+
+/**
+ * Lưu trạng thái vào file JSON để giữ chống trùng giữa các lần khởi động lại
+ */
+export class FileAlertStateStore extends JsonFileStore<AlertRuleState> implements AlertStateStore {}
+
+// Kết quả đánh giá một quy tắc
+export interface AlertRuleResult {
+    rule: AlertRule;
+    value: number;
+    breached: boolean;
+    // Cảnh báo được gửi ở lần chạy này (lần đầu vượt ngưỡng hoặc hết cooldown)
+    fired: boolean;
+    // Đã trở lại bình thường ở lần chạy này
+    resolved: boolean;
+    // Lỗi khi truy vấn GA4 (quy tắc được bỏ qua)
+    error?: string;
+}
+
+export interface AlertRuleEngineOptions {
+    rules?: AlertRule[];
+    // Nơi lưu trạng thái (mặc định trong bộ nhớ)
+    store?: AlertStateStore;
+    // Ngôn ngữ của cảnh báo (mặc định 'vi')
+    locale?: string;
+}
+
+const COMPARISONS: Record<AlertComparison, (value: number, threshold: number) => boolean> = {
+    '<': (value, threshold) => value < threshold,
+    '<=': (value, threshold) => value <= threshold,
+    '>': (value, threshold) => value > threshold,
+    '>=': (value, threshold) => value >= threshold,
+    '==': (value, threshold) => value === threshold,
+    '!=': (value, threshold) => value !== threshold
+};
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+    info: 'ℹ️',
+    warning: '⚠️',
+    critical: '🚨'
+};
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const DEFAULT_WINDOW = 'yesterday';
+const DEFAULT_COOLDOWN = '1d';
+
+function isFilterExpression(filter: AlertRuleFilter | GA4FilterExpression): filter is GA4FilterExpression {
+    return ['andGroup', 'orGroup', 'notExpression', 'filter'].some(key => key in filter);
+}
+
+/**
+ * Chuyển bộ lọc của quy tắc thành FilterExpression của GA4
+ */
+export function buildAlertRuleFilter(filter?: AlertRuleFilter | GA4FilterExpression): GA4FilterExpression | undefined {
+    if (!filter) return undefined;
+    if (isFilterExpression(filter)) return filter;
+
+    const expressions = Object.entries(filter).map(([dimension, value]) => Array.isArray(value)
+        ? inListFilter(dimension, value)
+        : stringFilter(dimension, value));
+    if (expressions.length === 0) return undefined;
+    return expressions.length === 1 ? expressions[0] : andGroup(...expressions);
+}
+
+/**
+ * Kiểm tra cấu hình quy tắc
+ * @throws Error liệt kê tất cả vấn đề tìm thấy
+ */
+export function validateAlertRules(rules: AlertRule[]): void {
+    const errors: string[] = [];
+    const ids = new Set<string>();
+
+    rules.forEach((rule, index) => {
+        const label = rule?.id ? `Rule "${rule.id}"` : `Rule #${index + 1}`;
+        if (!rule?.id) errors.push(`${label}: missing id`);
+        else if (ids.has(rule.id)) errors.push(`${label}: duplicate id`);
+        else ids.add(rule.id);
+
+        if (!rule?.metric) errors.push(`${label}: missing metric`);
+        if (!(rule?.comparison in COMPARISONS)) errors.push(`${label}: comparison must be one of ${Object.keys(COMPARISONS).join(' ')}`);
+        if (typeof rule?.threshold !== 'number' || isNaN(rule.threshold)) errors.push(`${label}: threshold must be a number`);
+        if (rule?.severity && !SEVERITIES.includes(rule.severity)) errors.push(`${label}: severity must be one of ${SEVERITIES.join(', ')}`);
+
+        const check = (parse: () => unknown) => {
+            try {
+                parse();
+            } catch (error) {
+                errors.push(`${label}: ${(error as Error).message}`);
+            }
+        };
+        if (rule?.window !== undefined) check(() => parsePeriod(rule.window!));
+        if (rule?.cooldown !== undefined) check(() => parseDuration(rule.cooldown!));
+    });
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid alert rules: ${errors.join('; ')}`);
+    }
+}
+
+/**
+ * Đọc danh sách quy tắc từ file JSON (mảng quy tắc hoặc { "rules": [...] })
+ */
+export function loadAlertRules(filePath: string): AlertRule[] {
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    const rules: AlertRule[] = Array.isArray(content) ? content : content?.rules;
+    if (!Array.isArray(rules)) {
+        throw new Error(`Alert rules file ${filePath} must contain an array of rules or { "rules": [...] }`);
+    }
+
+    validateAlertRules(rules);
+    return rules;
+}
+
+/**
+ * Đánh giá các quy tắc cảnh báo theo ngưỡng bằng getDetailedReport và gửi cảnh báo qua Telegram
+ * (định tuyến theo mức cảnh báo). Khi vẫn vượt ngưỡng, cảnh báo chỉ được gửi lại sau cooldown
+ */
+export class AlertRuleEngine {
+    private ga4Service: GA4Service;
+    private router: TelegramRouter;
+    private rules: AlertRule[];
+    private store: AlertStateStore;
+    private locale: string;
+    private timer: NodeJS.Timeout | null = null;
+    // Lần chạy định kỳ chưa xong (start() bỏ qua lượt tiếp theo thay vì chạy chồng)
+    private pendingRun: Promise<unknown> | null = null;
+
+    constructor(ga4Service: GA4Service, router: TelegramRouter, options: AlertRuleEngineOptions = {}) {
+        this.ga4Service = ga4Service;
+        this.router = router;
+        this.rules = [];
+        this.store = options.store || new MemoryAlertStateStore();
+        this.locale = options.locale || DEFAULT_LOCALE;
+        this.addRules(options.rules || []);
+    }
+
+    getRules(): AlertRule[] {
+        return [...this.rules];
+    }
+
+    /**
+     * Thêm quy tắc (kiểm tra cấu hình cùng với các quy tắc đã có)
+     */
+    addRules(rules: AlertRule[]): this {
+        validateAlertRules([...this.rules, ...rules]);
+        this.rules.push(...rules);
+        return this;
+    }
+
+    removeRule(ruleId: string): boolean {
+        const index = this.rules.findIndex(rule => rule.id === ruleId);
+        if (index === -1) return false;
+        this.rules.splice(index, 1);
+        return true;
+    }
+
+    /**
+     * Lấy giá trị metric của quy tắc trong khoảng thời gian của nó
+     */
+    async evaluate(rule: AlertRule): Promise<number> {
+        const period = parsePeriod(rule.window || DEFAULT_WINDOW);
+        const response = await this.ga4Service.getDetailedReport(
+            [{ startDate: period.startDate, endDate: period.endDate }],
+            [],
+            [{ name: rule.metric }],
+            buildAlertRuleFilter(rule.filter),
+            undefined,
+            1
+        );
+
+        // Không có dòng nào nghĩa là không có dữ liệu khớp bộ lọc, tức giá trị bằng 0
+        const report = parseReport<string, string>(response);
+        return Number(report.rows[0]?.[rule.metric] ?? 0);
+    }
+
+    /**
+     * Đánh giá mọi quy tắc đang bật và gửi cảnh báo cho quy tắc vừa vượt ngưỡng hoặc đã hết cooldown.
+     * Lỗi của một quy tắc không làm dừng các quy tắc khác
+     */
+    async run(): Promise<AlertRuleResult[]> {
+        const t = getTranslator(this.locale);
+        const results: AlertRuleResult[] = [];
+
+        for (const rule of this.rules.filter(rule => rule.enabled !== false)) {
+            let value: number;
+            try {
+                value = await this.evaluate(rule);
+            } catch (error) {
+                logger.error(`Lỗi khi đánh giá quy tắc cảnh báo ${rule.id}:`, error);
+                results.push({ rule, value: NaN, breached: false, fired: false, resolved: false, error: (error as Error).message });
+                continue;
+            }
+
+            results.push(await this.apply(rule, value, t));
+        }
+
+        const fired = results.filter(result => result.fired).length;
+        logger.info(`Đã đánh giá ${results.length} quy tắc cảnh báo, gửi ${fired} cảnh báo`);
+        return results;
+    }
+
+    /**
+     * Chạy định kỳ (lần đầu chạy ngay). Lượt đến hạn khi lần chạy trước chưa xong bị bỏ qua
+     * @param intervalMinutes Khoảng cách giữa các lần chạy
+     */
+    start(intervalMinutes: number = 60): void {
+        this.stop();
+        const tick = () => {
+            if (this.pendingRun) {
+                logger.warn('Lần chạy quy tắc cảnh báo trước chưa xong, bỏ qua lượt này');
+                return;
+            }
+            this.pendingRun = this.run()
+                .catch(error => logger.error('Lỗi khi chạy quy tắc cảnh báo:', error))
+                .finally(() => {
+                    this.pendingRun = null;
+                });
+        };
+        this.timer = setInterval(tick, intervalMinutes * 60 * 1000);
+        tick();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * So sánh với ngưỡng, cập nhật trạng thái và gửi cảnh báo khi cần
+     */
+    private async apply(rule: AlertRule, value: number, t: Translator): Promise<AlertRuleResult> {
+        const breached = COMPARISONS[rule.comparison](value, rule.threshold);
+        const previous = this.store.get(rule.id) || { firing: false };
+        const result: AlertRuleResult = { rule, value, breached, fired: false, resolved: false };
+        const severity = rule.severity || 'warning';
+        const telegram = this.router.forSeverity(severity);
+
+        if (breached) {
+            const cooldown = parseDuration(rule.cooldown ?? DEFAULT_COOLDOWN);
+            const lastFiredAt = previous.lastFiredAt ? Date.parse(previous.lastFiredAt) : 0;
+            const due = !previous.firing || Date.now() - lastFiredAt >= cooldown;
+
+            if (due) {
+                result.fired = await this.send(telegram, rule, formatAlertRuleMessage(rule, value, t));
+            }
+            this.store.set(rule.id, {
+                firing: true,
+                // Chỉ tính cooldown từ lần gửi thành công để lần chạy sau thử lại
+                lastFiredAt: result.fired ? new Date().toISOString() : previous.lastFiredAt,
+                lastValue: value
+            });
+        } else {
+            if (previous.firing) {
+                result.resolved = true;
+                if (rule.notifyResolved) {
+                    await this.send(telegram, rule, formatAlertRuleMessage(rule, value, t, true));
+                }
+            }
+            this.store.set(rule.id, { firing: false, lastFiredAt: previous.lastFiredAt, lastValue: value });
+        }
+
+        return result;
+    }
+
+    /**
+     * Gửi cảnh báo (HTML) mà không ném lỗi, kể cả khi TelegramService bật throwOnError,
+     * để một lần gửi thất bại không làm dừng các quy tắc còn lại
+     */
+    private async send(telegram: TelegramService, rule: AlertRule, message: string): Promise<boolean> {
+        try {
+            return await telegram.sendMessage(message, 'HTML');
+        } catch (error) {
+            logger.error(`Lỗi khi gửi cảnh báo của quy tắc ${rule.id}:`, error);
+            return false;
+        }
+    }
+}
+
+/**
+ * Định dạng cảnh báo (HTML) của một quy tắc
+ * @param resolved Thông báo metric đã trở lại bình thường
+ */
+export function formatAlertRuleMessage(rule: AlertRule, value: number, t: Translator, resolved: boolean = false): string {
+    const name = escapeHtml(rule.name || rule.id);
+    const title = resolved
+        ? t.t('alertRule.resolved', { name })
+        : `${SEVERITY_ICONS[rule.severity || 'warning']} ${t.t('alertRule.title', { name })}`;
+
+    let result = `<b>${title}</b>\n\n`;
+    result += `- ${t.t('alertRule.value', {
+        metric: escapeHtml(rule.metric),
+        value: t.number(value, { maximumFractionDigits: 2 }),
+        comparison: escapeHtml(rule.comparison),
+        threshold: t.number(rule.threshold, { maximumFractionDigits: 2 })
+    })}\n`;
+    result += `- ${t.t('alertRule.window', { period: formatPeriod(parsePeriod(rule.window || DEFAULT_WINDOW), t) })}\n`;
+
+    if (rule.filter) {
+        const filter = isFilterExpression(rule.filter)
+            ? collectFilterFields(rule.filter).join(', ')
+            : Object.entries(rule.filter).map(([dimension, values]) => `${dimension} = ${[values].flat().join(' | ')}`).join(', ');
+        result += `- ${t.t('alertRule.filter', { filter: escapeHtml(filter) })}\n`;
+    }
+
+    return result;
+}
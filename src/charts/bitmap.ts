@@ -0,0 +1,111 @@
+import { encodePng } from "./png";
+import { getGlyph, GLYPH_HEIGHT, GLYPH_WIDTH, toFontText } from "./font";
+
+export type RGB = [number, number, number];
+
+/**
+ * Ảnh RGB đơn giản trong bộ nhớ với các thao tác vẽ cơ bản
+ */
+export class Bitmap {
+    private pixels: Uint8Array;
+
+    constructor(readonly width: number, readonly height: number, background: RGB = [255, 255, 255]) {
+        this.pixels = new Uint8Array(width * height * 3);
+        this.fillRect(0, 0, width, height, background);
+    }
+
+    setPixel(x: number, y: number, color: RGB): void {
+        x = Math.round(x);
+        y = Math.round(y);
+        if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+
+        const offset = (y * this.width + x) * 3;
+        this.pixels[offset] = color[0];
+        this.pixels[offset + 1] = color[1];
+        this.pixels[offset + 2] = color[2];
+    }
+
+    fillRect(x: number, y: number, width: number, height: number, color: RGB): void {
+        const x0 = Math.max(0, Math.round(x));
+        const y0 = Math.max(0, Math.round(y));
+        const x1 = Math.min(this.width, Math.round(x + width));
+        const y1 = Math.min(this.height, Math.round(y + height));
+
+        for (let py = y0; py < y1; py++) {
+            for (let px = x0; px < x1; px++) {
+                this.setPixel(px, py, color);
+            }
+        }
+    }
+
+    /**
+     * Vẽ đoạn thẳng với độ dày cho trước
+     */
+    drawLine(x0: number, y0: number, x1: number, y1: number, color: RGB, thickness: number = 1): void {
+        const steps = Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0), 1);
+        const offset = Math.floor(thickness / 2);
+
+        for (let i = 0; i <= steps; i++) {
+            const x = x0 + ((x1 - x0) * i) / steps;
+            const y = y0 + ((y1 - y0) * i) / steps;
+            this.fillRect(Math.round(x) - offset, Math.round(y) - offset, thickness, thickness, color);
+        }
+    }
+
+    fillCircle(cx: number, cy: number, radius: number, color: RGB): void {
+        this.fillSector(cx, cy, radius, 0, Math.PI * 2, color);
+    }
+
+    /**
+     * Tô hình quạt, góc tính theo radian từ hướng 12 giờ theo chiều kim đồng hồ
+     */
+    fillSector(cx: number, cy: number, radius: number, startAngle: number, endAngle: number, color: RGB): void {
+        const full = endAngle - startAngle >= Math.PI * 2;
+
+        for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+            for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+                const dx = x - cx;
+                const dy = y - cy;
+                if (dx * dx + dy * dy > radius * radius) continue;
+
+                if (!full) {
+                    const angle = (Math.atan2(dx, -dy) + Math.PI * 2) % (Math.PI * 2);
+                    if (angle < startAngle || angle >= endAngle) continue;
+                }
+                this.setPixel(x, y, color);
+            }
+        }
+    }
+
+    /**
+     * Độ rộng (px) của văn bản khi vẽ với hệ số phóng to `scale`
+     */
+    static measureText(text: string, scale: number = 1): number {
+        const length = Array.from(toFontText(text)).length;
+        return length === 0 ? 0 : (length * (GLYPH_WIDTH + 1) - 1) * scale;
+    }
+
+    static textHeight(scale: number = 1): number {
+        return GLYPH_HEIGHT * scale;
+    }
+
+    drawText(text: string, x: number, y: number, color: RGB, scale: number = 1): void {
+        let cursor = Math.round(x);
+
+        for (const char of toFontText(text)) {
+            const glyph = getGlyph(char);
+            glyph.forEach((row, rowIndex) => {
+                for (let column = 0; column < GLYPH_WIDTH; column++) {
+                    if (row & (1 << (GLYPH_WIDTH - 1 - column))) {
+                        this.fillRect(cursor + column * scale, y + rowIndex * scale, scale, scale, color);
+                    }
+                }
+            });
+            cursor += (GLYPH_WIDTH + 1) * scale;
+        }
+    }
+
+    toPng(): Buffer {
+        return encodePng(this.width, this.height, this.pixels);
+    }
+}
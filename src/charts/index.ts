@@ -0,0 +1,14 @@
+export { Bitmap, RGB } from "./bitmap";
+export { encodePng } from "./png";
+export {
+    ChartData,
+    ChartOptions,
+    ChartSeries,
+    ChartType,
+    DEFAULT_CHART_COLORS,
+    chartDataFromReport,
+    renderBarChart,
+    renderChart,
+    renderLineChart,
+    renderPieChart
+} from "./render";
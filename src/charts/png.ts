@@ -0,0 +1,51 @@
+import { deflateSync } from 'zlib';
+import { crc32 } from '../utils/crc32';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+
+    return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Mã hóa ảnh RGB 8-bit thành PNG
+ * @param width Chiều rộng (px)
+ * @param height Chiều cao (px)
+ * @param pixels Dữ liệu RGB theo từng dòng, 3 byte mỗi pixel
+ */
+export function encodePng(width: number, height: number, pixels: Uint8Array): Buffer {
+    const stride = width * 3;
+    if (pixels.length !== stride * height) {
+        throw new Error(`Expected ${stride * height} bytes of RGB data, got ${pixels.length}`);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8;  // bit depth
+    header[9] = 2;  // color type: truecolor RGB
+    header[10] = 0; // compression
+    header[11] = 0; // filter
+    header[12] = 0; // interlace
+
+    // Mỗi dòng bắt đầu bằng byte filter (0 = None)
+    const raw = Buffer.alloc((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (stride + 1)] = 0;
+        Buffer.from(pixels.buffer, pixels.byteOffset + y * stride, stride).copy(raw, y * (stride + 1) + 1);
+    }
+
+    return Buffer.concat([
+        PNG_SIGNATURE,
+        chunk('IHDR', header),
+        chunk('IDAT', deflateSync(raw)),
+        chunk('IEND', Buffer.alloc(0))
+    ]);
+}
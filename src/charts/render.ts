@@ -0,0 +1,337 @@
+import { Bitmap, RGB } from "./bitmap";
+import { TypedReportResult } from "../ga.types";
+
+export type ChartType = 'bar' | 'line' | 'pie';
+
+export interface ChartSeries {
+    name: string;
+    values: number[];
+}
+
+export interface ChartData {
+    labels: string[];
+    series: ChartSeries[];
+}
+
+export interface ChartOptions {
+    title?: string;
+    width?: number;
+    height?: number;
+    colors?: RGB[];
+    // Biểu đồ tròn: số lát tối đa, phần còn lại gộp thành otherLabel
+    maxSlices?: number;
+    otherLabel?: string;
+}
+
+const DEFAULT_WIDTH = 800;
+const DEFAULT_HEIGHT = 480;
+const DEFAULT_MAX_SLICES = 6;
+const PADDING = 24;
+const TEXT_SCALE = 2;
+const TITLE_SCALE = 3;
+const Y_TICKS = 4;
+
+const BACKGROUND: RGB = [255, 255, 255];
+const TEXT_COLOR: RGB = [51, 51, 51];
+const MUTED_COLOR: RGB = [117, 117, 117];
+const GRID_COLOR: RGB = [230, 230, 230];
+const AXIS_COLOR: RGB = [189, 189, 189];
+
+export const DEFAULT_CHART_COLORS: RGB[] = [
+    [66, 133, 244],
+    [219, 68, 55],
+    [244, 180, 0],
+    [15, 157, 88],
+    [171, 71, 188],
+    [0, 172, 193],
+    [255, 112, 67],
+    [158, 157, 36]
+];
+
+// ==== TIỆN ÍCH ====
+
+/**
+ * Định dạng số ngắn gọn cho nhãn trục (1234 → 1.2K)
+ */
+function formatCompact(value: number): string {
+    const abs = Math.abs(value);
+    if (abs >= 1e9) return `${+(value / 1e9).toFixed(1)}B`;
+    if (abs >= 1e6) return `${+(value / 1e6).toFixed(1)}M`;
+    if (abs >= 1e3) return `${+(value / 1e3).toFixed(1)}K`;
+    return Number.isInteger(value) ? String(value) : String(+value.toFixed(1));
+}
+
+// Giá trị lớn nhất của trục làm tròn theo bước 1-2-5
+function niceMax(max: number): number {
+    if (max <= 0) return 1;
+    const rough = max / Y_TICKS;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) as number;
+    return step * Y_TICKS;
+}
+
+function fitText(text: string, maxWidth: number, scale: number): string {
+    if (Bitmap.measureText(text, scale) <= maxWidth) return text;
+
+    const chars = Array.from(text);
+    while (chars.length > 1 && Bitmap.measureText(chars.join('') + '.', scale) > maxWidth) {
+        chars.pop();
+    }
+    return chars.length > 1 ? chars.join('') + '.' : '';
+}
+
+function colorAt(options: ChartOptions, index: number): RGB {
+    const colors = options.colors && options.colors.length > 0 ? options.colors : DEFAULT_CHART_COLORS;
+    return colors[index % colors.length];
+}
+
+interface PlotArea {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * Vẽ tiêu đề và chú thích (khi có nhiều series), trả về tọa độ y bắt đầu vùng vẽ
+ */
+function drawHeader(bitmap: Bitmap, data: ChartData, options: ChartOptions, withLegend: boolean): number {
+    let y = PADDING;
+
+    if (options.title) {
+        const title = fitText(options.title, bitmap.width - PADDING * 2, TITLE_SCALE);
+        bitmap.drawText(title, (bitmap.width - Bitmap.measureText(title, TITLE_SCALE)) / 2, y, TEXT_COLOR, TITLE_SCALE);
+        y += Bitmap.textHeight(TITLE_SCALE) + 16;
+    }
+
+    if (withLegend && data.series.length > 1) {
+        let x = PADDING;
+        data.series.forEach((series, index) => {
+            bitmap.fillRect(x, y, 14, 14, colorAt(options, index));
+            bitmap.drawText(series.name, x + 20, y, TEXT_COLOR, TEXT_SCALE);
+            x += 20 + Bitmap.measureText(series.name, TEXT_SCALE) + 24;
+        });
+        y += 14 + 16;
+    }
+
+    return y;
+}
+
+/**
+ * Vẽ lưới và nhãn trục Y, trả về vùng vẽ dữ liệu
+ */
+function drawAxes(bitmap: Bitmap, top: number, maxValue: number): PlotArea {
+    const labels = Array.from({ length: Y_TICKS + 1 }, (_, index) => formatCompact((maxValue / Y_TICKS) * index));
+    const labelWidth = Math.max(...labels.map(label => Bitmap.measureText(label, TEXT_SCALE)));
+
+    const area: PlotArea = {
+        left: PADDING + labelWidth + 10,
+        top: top + Bitmap.textHeight(TEXT_SCALE) / 2,
+        right: bitmap.width - PADDING,
+        bottom: bitmap.height - PADDING - Bitmap.textHeight(TEXT_SCALE) - 10
+    };
+
+    labels.forEach((label, index) => {
+        const y = Math.round(area.bottom - ((area.bottom - area.top) * index) / Y_TICKS);
+        bitmap.fillRect(area.left, y, area.right - area.left, 1, index === 0 ? AXIS_COLOR : GRID_COLOR);
+        bitmap.drawText(
+            label,
+            area.left - 10 - Bitmap.measureText(label, TEXT_SCALE),
+            y - Bitmap.textHeight(TEXT_SCALE) / 2,
+            MUTED_COLOR,
+            TEXT_SCALE
+        );
+    });
+
+    return area;
+}
+
+function drawXLabel(bitmap: Bitmap, label: string, centerX: number, area: PlotArea, maxWidth: number): void {
+    const text = fitText(label, maxWidth, TEXT_SCALE);
+    bitmap.drawText(text, centerX - Bitmap.measureText(text, TEXT_SCALE) / 2, area.bottom + 10, MUTED_COLOR, TEXT_SCALE);
+}
+
+function seriesMax(data: ChartData): number {
+    return Math.max(0, ...data.series.flatMap(series => series.values.filter(Number.isFinite)));
+}
+
+// ==== BIỂU ĐỒ ====
+
+/**
+ * Biểu đồ cột (nhiều series được vẽ thành nhóm cột)
+ */
+export function renderBarChart(data: ChartData, options: ChartOptions = {}): Buffer {
+    const bitmap = new Bitmap(options.width || DEFAULT_WIDTH, options.height || DEFAULT_HEIGHT, BACKGROUND);
+    const top = drawHeader(bitmap, data, options, true);
+    const maxValue = niceMax(seriesMax(data));
+    const area = drawAxes(bitmap, top, maxValue);
+
+    const count = Math.max(data.labels.length, 1);
+    const groupWidth = (area.right - area.left) / count;
+    const barWidth = Math.max(1, (groupWidth * 0.7) / Math.max(data.series.length, 1));
+    const plotHeight = area.bottom - area.top;
+
+    data.labels.forEach((label, index) => {
+        const groupLeft = area.left + groupWidth * index + groupWidth * 0.15;
+
+        data.series.forEach((series, seriesIndex) => {
+            const value = Math.max(0, series.values[index] || 0);
+            const height = (value / maxValue) * plotHeight;
+            const x = groupLeft + barWidth * seriesIndex;
+            bitmap.fillRect(x, area.bottom - height, barWidth, height, colorAt(options, seriesIndex));
+
+            // Giá trị trên đầu cột khi đủ chỗ
+            const text = formatCompact(value);
+            if (data.series.length === 1 && Bitmap.measureText(text, TEXT_SCALE) <= groupWidth) {
+                bitmap.drawText(
+                    text,
+                    x + (barWidth - Bitmap.measureText(text, TEXT_SCALE)) / 2,
+                    area.bottom - height - Bitmap.textHeight(TEXT_SCALE) - 4,
+                    TEXT_COLOR,
+                    TEXT_SCALE
+                );
+            }
+        });
+
+        drawXLabel(bitmap, label, area.left + groupWidth * (index + 0.5), area, groupWidth - 4);
+    });
+
+    return bitmap.toPng();
+}
+
+/**
+ * Biểu đồ đường, phù hợp cho xu hướng theo ngày
+ */
+export function renderLineChart(data: ChartData, options: ChartOptions = {}): Buffer {
+    const bitmap = new Bitmap(options.width || DEFAULT_WIDTH, options.height || DEFAULT_HEIGHT, BACKGROUND);
+    const top = drawHeader(bitmap, data, options, true);
+    const maxValue = niceMax(seriesMax(data));
+    const area = drawAxes(bitmap, top, maxValue);
+
+    const count = data.labels.length;
+    const stepX = count > 1 ? (area.right - area.left) / (count - 1) : 0;
+    const xAt = (index: number) => (count > 1 ? area.left + stepX * index : (area.left + area.right) / 2);
+    const yAt = (value: number) => area.bottom - (Math.max(0, value) / maxValue) * (area.bottom - area.top);
+
+    data.series.forEach((series, seriesIndex) => {
+        const color = colorAt(options, seriesIndex);
+        const points = series.values.slice(0, count).map((value, index) => [xAt(index), yAt(value || 0)]);
+
+        for (let i = 1; i < points.length; i++) {
+            bitmap.drawLine(points[i - 1][0], points[i - 1][1], points[i][0], points[i][1], color, 3);
+        }
+        points.forEach(([x, y]) => bitmap.fillCircle(x, y, 4, color));
+    });
+
+    // Chỉ hiển thị một phần nhãn trục X để không chồng lên nhau
+    const labelWidth = Math.max(1, ...data.labels.map(label => Bitmap.measureText(label, TEXT_SCALE)));
+    const every = Math.max(1, Math.ceil((labelWidth + 16) / Math.max(stepX, 1)));
+    data.labels.forEach((label, index) => {
+        if (index % every === 0 || (index === count - 1 && (count - 1) % every >= every / 2)) {
+            drawXLabel(bitmap, label, xAt(index), area, labelWidth);
+        }
+    });
+
+    return bitmap.toPng();
+}
+
+/**
+ * Biểu đồ tròn từ series đầu tiên, kèm chú thích phần trăm
+ */
+export function renderPieChart(data: ChartData, options: ChartOptions = {}): Buffer {
+    const bitmap = new Bitmap(options.width || DEFAULT_WIDTH, options.height || DEFAULT_HEIGHT, BACKGROUND);
+    const top = drawHeader(bitmap, data, options, false);
+    const values = data.series[0]?.values || [];
+    const maxSlices = options.maxSlices || DEFAULT_MAX_SLICES;
+
+    // Sắp xếp giảm dần và gộp các lát nhỏ
+    let slices = data.labels
+        .map((label, index) => ({ label, value: Math.max(0, values[index] || 0) }))
+        .filter(slice => slice.value > 0)
+        .sort((a, b) => b.value - a.value);
+    if (slices.length > maxSlices) {
+        const rest = slices.slice(maxSlices - 1).reduce((sum, slice) => sum + slice.value, 0);
+        slices = [...slices.slice(0, maxSlices - 1), { label: options.otherLabel || 'Other', value: rest }];
+    }
+
+    const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+    const areaHeight = bitmap.height - top - PADDING;
+    const radius = Math.max(10, Math.min(areaHeight, bitmap.width / 2 - PADDING * 2) / 2);
+    const cx = PADDING + radius;
+    const cy = top + areaHeight / 2;
+
+    if (total === 0) {
+        bitmap.fillCircle(cx, cy, radius, GRID_COLOR);
+        return bitmap.toPng();
+    }
+
+    let angle = 0;
+    slices.forEach((slice, index) => {
+        const sweep = (slice.value / total) * Math.PI * 2;
+        bitmap.fillSector(cx, cy, radius, angle, index === slices.length - 1 ? Math.PI * 2 : angle + sweep, colorAt(options, index));
+        angle += sweep;
+    });
+
+    const legendX = cx + radius + 40;
+    const rowHeight = Bitmap.textHeight(TEXT_SCALE) + 14;
+    let legendY = cy - (slices.length * rowHeight) / 2;
+
+    slices.forEach((slice, index) => {
+        const percent = `${((slice.value / total) * 100).toFixed(1)}%`;
+        const label = fitText(slice.label, bitmap.width - legendX - PADDING - 24 - Bitmap.measureText(` ${percent}`, TEXT_SCALE) - 10, TEXT_SCALE);
+
+        bitmap.fillRect(legendX, legendY, 14, 14, colorAt(options, index));
+        bitmap.drawText(`${label} ${percent}`, legendX + 24, legendY, TEXT_COLOR, TEXT_SCALE);
+        legendY += rowHeight;
+    });
+
+    return bitmap.toPng();
+}
+
+export function renderChart(type: ChartType, data: ChartData, options: ChartOptions = {}): Buffer {
+    switch (type) {
+        case 'bar':
+            return renderBarChart(data, options);
+        case 'line':
+            return renderLineChart(data, options);
+        case 'pie':
+            return renderPieChart(data, options);
+        default:
+            throw new Error(`Unknown chart type "${type}"`);
+    }
+}
+
+/**
+ * Chuyển báo cáo thành dữ liệu biểu đồ: nhãn lấy từ dimension, mỗi metric là một series.
+ * Dimension `date` được sắp xếp theo thời gian và hiển thị dạng DD/MM
+ * @param report Kết quả báo cáo
+ * @param dimension Dimension làm nhãn
+ * @param metrics Metric làm series
+ * @param limit Số dòng tối đa
+ */
+export function chartDataFromReport(
+    report: TypedReportResult<string, string>,
+    dimension: string,
+    metrics: string | string[],
+    limit?: number
+): ChartData {
+    const metricNames = Array.isArray(metrics) ? metrics : [metrics];
+    let rows = [...report.rows];
+
+    if (dimension === 'date') {
+        rows.sort((a, b) => String(a.date).localeCompare(String(b.date)));
+    }
+    if (limit !== undefined) {
+        rows = dimension === 'date' ? rows.slice(-limit) : rows.slice(0, limit);
+    }
+
+    const labelOf = (value: string) => {
+        const match = dimension === 'date' ? /^\d{4}(\d{2})(\d{2})$/.exec(value) : null;
+        return match ? `${match[2]}/${match[1]}` : value || '(not set)';
+    };
+
+    return {
+        labels: rows.map(row => labelOf(String(row[dimension] ?? ''))),
+        series: metricNames.map(name => ({ name, values: rows.map(row => Number(row[name]) || 0) }))
+    };
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CLI_EXIT_CODES, run } from "./cli";
+import { GA4Service } from "./ga.service";
+import { TelegramService } from "./telegram.service";
+import { GA4Error, GA4InvalidRequestError, GA4PermissionError } from "./errors";
+
+const ENV_KEYS = [
+    'GA4_TELEGRAM_CONFIG', 'GA4_PROPERTY_ID', 'GA4_PROPERTY_NAME', 'GA4_KEY_FILE', 'GOOGLE_APPLICATION_CREDENTIALS',
+    'TELEGRAM_BOT_TOKEN', 'TELEGRAM_CHAT_ID', 'GA4_LOCALE'
+];
+
+describe('CLI exit codes', () => {
+    let dir: string;
+    let keyFile: string;
+    let stderr: jest.SpyInstance;
+    const savedEnv = { ...process.env };
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ga4-telegram-cli-'));
+        keyFile = path.join(dir, 'key.json');
+        fs.writeFileSync(keyFile, '{}');
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    beforeEach(() => {
+        ENV_KEYS.forEach(key => delete process.env[key]);
+        jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+        stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        process.env = { ...savedEnv };
+    });
+
+    const ga4Args = () => ['--property-id', '123', '--key-file', keyFile];
+    const query = (...args: string[]) => run(['query', ...ga4Args(), ...args]);
+
+    it('0 khi thành công hoặc --help', async () => {
+        jest.spyOn(GA4Service.prototype, 'getTypedReport').mockResolvedValue({
+            dimensionHeaders: ['country'],
+            metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+            rows: [{ country: 'Vietnam', sessions: 10 }],
+            totals: [],
+            rowCount: 1
+        });
+
+        await expect(run(['--help'])).resolves.toBe(CLI_EXIT_CODES.OK);
+        await expect(query('-d', 'country', '-m', 'sessions', '--format', 'csv')).resolves.toBe(CLI_EXIT_CODES.OK);
+        expect(process.stdout.write).toHaveBeenCalledWith('country,sessions\r\nVietnam,10\r\n');
+    });
+
+    it('2 khi sai lệnh hoặc tham số', async () => {
+        await expect(run([])).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(run(['unknown'])).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(run(['query', '--no-such-flag'])).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(query()).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(query('-m', 'sessions', '--limit', '0')).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(query('-m', 'sessions', '--filter', 'country')).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        await expect(run(['report', 'monthly'])).resolves.toBe(CLI_EXIT_CODES.USAGE);
+        expect(stderr).toHaveBeenCalledWith('Run "ga4-telegram --help" for usage.\n');
+    });
+
+    it('3 khi thiếu hoặc sai cấu hình', async () => {
+        await expect(run(['query', '-m', 'sessions'])).resolves.toBe(CLI_EXIT_CODES.CONFIG);
+        await expect(run(['query', '-m', 'sessions', '--property-id', '123', '--key-file', path.join(dir, 'nope.json')]))
+            .resolves.toBe(CLI_EXIT_CODES.CONFIG);
+        await expect(run(['send', 'hello', '--config', path.join(dir, 'missing.json')])).resolves.toBe(CLI_EXIT_CODES.CONFIG);
+
+        const invalidConfig = path.join(dir, 'invalid.json');
+        fs.writeFileSync(invalidConfig, '[1, 2]');
+        await expect(run(['send', 'hello', '--config', invalidConfig])).resolves.toBe(CLI_EXIT_CODES.CONFIG);
+    });
+
+    it('ánh xạ lỗi của GA4 sang mã thoát', async () => {
+        const getTypedReport = jest.spyOn(GA4Service.prototype, 'getTypedReport');
+
+        getTypedReport.mockRejectedValueOnce(new GA4PermissionError('User does not have sufficient permissions'));
+        await expect(query('-m', 'sessions')).resolves.toBe(CLI_EXIT_CODES.CONFIG);
+
+        getTypedReport.mockRejectedValueOnce(new GA4InvalidRequestError('Field foo is not a valid metric', ['foo']));
+        await expect(query('-m', 'foo')).resolves.toBe(CLI_EXIT_CODES.USAGE);
+
+        getTypedReport.mockRejectedValueOnce(new GA4Error('Internal error', { status: 500 }));
+        await expect(query('-m', 'sessions')).resolves.toBe(CLI_EXIT_CODES.FAILURE);
+    });
+
+    it('1 khi gửi Telegram hoặc kiểm tra kết nối thất bại', async () => {
+        const telegram = ['--telegram-token', '123:abc', '--chat-id', '42'];
+        jest.spyOn(TelegramService.prototype, 'sendMessage').mockResolvedValue(false);
+        jest.spyOn(TelegramService.prototype, 'testConnection').mockResolvedValue(true);
+        jest.spyOn(GA4Service.prototype, 'getMetadata').mockRejectedValue(new Error('boom'));
+
+        await expect(run(['send', 'hello', ...telegram])).resolves.toBe(CLI_EXIT_CODES.FAILURE);
+        await expect(run(['test-connection', 'telegram', ...telegram])).resolves.toBe(CLI_EXIT_CODES.OK);
+        await expect(run(['test-connection', ...ga4Args(), ...telegram])).resolves.toBe(CLI_EXIT_CODES.FAILURE);
+    });
+});
@@ -0,0 +1,464 @@
+import { logger, LogLevel } from "./utils/logger";
+import { GA4Service, GoogleServiceAccountKeyInput } from "./ga.service";
+import { GAInsightsService } from "./ga-insights.service";
+import { TelegramService, TelegramServiceOptions } from "./telegram.service";
+import { createWeekComparisonSection } from "./report-sections";
+import { GA4OrderBy } from "./ga.types";
+import { parsePeriod, ReportPeriod } from "./utils/periods";
+import { parseFilterString, ParsedFilters, validateFilterExpression } from "./utils/filters";
+import { TelegramParseMode } from "./utils/telegram-message";
+import { toCsv, toJson, toTextTable } from "./exporters";
+import { GA4AuthError, GA4InvalidRequestError, GA4PermissionError } from "./errors";
+import { parseArgs } from 'util';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Mã thoát của CLI, để script phân biệt lỗi cú pháp, thiếu cấu hình và lỗi khi chạy
+ */
+export const CLI_EXIT_CODES = {
+    OK: 0,
+    // Lỗi khi chạy: GA4/Telegram trả lỗi, gửi tin nhắn thất bại...
+    FAILURE: 1,
+    // Sai lệnh hoặc tham số, kể cả dimension/metric/bộ lọc bị GA4 từ chối
+    USAGE: 2,
+    // Thiếu hoặc sai cấu hình (property, service account, bot token...), kể cả lỗi xác thực/quyền của GA4
+    CONFIG: 3
+} as const;
+
+/**
+ * Nội dung file cấu hình JSON của CLI (mặc định ./ga4-telegram.config.json)
+ */
+export interface CliConfig {
+    propertyId?: string;
+    propertyName?: string;
+    // File JSON của service account, tương đối theo thư mục của file cấu hình
+    keyFile?: string;
+    serviceAccount?: GoogleServiceAccountKeyInput;
+    telegramToken?: string;
+    // Chat ID hoặc "chatId_topicId"
+    telegramChatId?: string;
+    locale?: string;
+}
+
+const DEFAULT_CONFIG_FILE = 'ga4-telegram.config.json';
+const DEFAULT_QUERY_LIMIT = 100;
+const QUERY_FORMATS = ['table', 'csv', 'json'];
+const PARSE_MODES: TelegramParseMode[] = ['HTML', 'MarkdownV2', 'Markdown'];
+
+const USAGE = `Usage: ga4-telegram <command> [options]
+
+Commands:
+  report daily|weekly          Send the GA4 report to Telegram
+      --sections <ids>         Comma-separated section ids (default: all)
+      --period <period>        today, yesterday, week, month, <N>d
+      --dry-run                Print the report instead of sending it
+  query                        Run a GA4 report and print it
+      -d, --dimensions <list>  Comma-separated dimensions
+      -m, --metrics <list>     Comma-separated metrics (required)
+      --from <date>            Start date, YYYY-MM-DD or NdaysAgo (default: 7daysAgo)
+      --to <date>              End date (default: yesterday)
+      -f, --filter <filter>    e.g. "country==Vietnam,Japan;pagePath=~^/blog;sessions>100"
+      --order-by <list>        e.g. "sessions:desc,country" (metrics default to desc)
+      --limit <n>              Maximum rows (default: ${DEFAULT_QUERY_LIMIT})
+      --format <format>        table, csv or json (default: table)
+      --totals                 Append the totals row (table and csv)
+  send <text>                  Send a message to Telegram ("-" reads stdin)
+      --parse-mode <mode>      HTML, MarkdownV2 or Markdown (default: HTML)
+  test-connection [ga|telegram]
+                               Check GA4 and/or Telegram credentials
+
+Options:
+  -c, --config <file>          Config file (default: ./${DEFAULT_CONFIG_FILE}, or GA4_TELEGRAM_CONFIG)
+  --property-id <id>           GA4 property ID (GA4_PROPERTY_ID)
+  --property-name <name>       Name shown in reports (GA4_PROPERTY_NAME)
+  --key-file <file>            Service account key file (GA4_KEY_FILE, GOOGLE_APPLICATION_CREDENTIALS)
+  --telegram-token <token>     Telegram bot token (TELEGRAM_BOT_TOKEN)
+  --chat-id <id>               Telegram chat ID or chatId_topicId (TELEGRAM_CHAT_ID)
+  --locale <locale>            Report language, e.g. vi or en (GA4_LOCALE)
+  -v, --verbose                Print debug logs
+  -h, --help                   Show this help
+  --version                    Show the version
+
+Exit codes: 0 ok, 1 failure, 2 invalid usage or GA4 request,
+            3 missing or invalid configuration (including GA4 authentication and permission errors)
+`;
+
+const OPTIONS = {
+    config: { type: 'string', short: 'c' },
+    'property-id': { type: 'string' },
+    'property-name': { type: 'string' },
+    'key-file': { type: 'string' },
+    'telegram-token': { type: 'string' },
+    'chat-id': { type: 'string' },
+    locale: { type: 'string' },
+    verbose: { type: 'boolean', short: 'v' },
+    help: { type: 'boolean', short: 'h' },
+    version: { type: 'boolean' },
+    sections: { type: 'string' },
+    period: { type: 'string' },
+    'dry-run': { type: 'boolean' },
+    dimensions: { type: 'string', short: 'd' },
+    metrics: { type: 'string', short: 'm' },
+    from: { type: 'string' },
+    to: { type: 'string' },
+    filter: { type: 'string', short: 'f' },
+    'order-by': { type: 'string' },
+    limit: { type: 'string' },
+    format: { type: 'string' },
+    totals: { type: 'boolean' },
+    'parse-mode': { type: 'string' }
+} as const;
+
+type CliValues = ReturnType<typeof parseCliArgs>['values'];
+
+// Lỗi đã biết của CLI, mang theo mã thoát
+class CliError extends Error {
+    constructor(message: string, public exitCode: number) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+function usageError(message: string): CliError {
+    return new CliError(message, CLI_EXIT_CODES.USAGE);
+}
+
+function configError(message: string): CliError {
+    return new CliError(message, CLI_EXIT_CODES.CONFIG);
+}
+
+// Lỗi cú pháp của giá trị tham số (period, filter...) là lỗi dùng sai lệnh
+function parseOption<T>(parse: () => T): T {
+    try {
+        return parse();
+    } catch (error) {
+        if (error instanceof CliError) throw error;
+        throw usageError((error as Error).message);
+    }
+}
+
+function parseCliArgs(argv: string[]) {
+    return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+}
+
+function splitList(value: string | undefined): string[] {
+    return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// ==== CẤU HÌNH ====
+
+function loadConfigFile(explicitPath?: string): { config: CliConfig; dir: string } {
+    const filePath = explicitPath || process.env.GA4_TELEGRAM_CONFIG;
+    const resolved = path.resolve(filePath || DEFAULT_CONFIG_FILE);
+
+    if (!filePath && !fs.existsSync(resolved)) {
+        return { config: {}, dir: process.cwd() };
+    }
+
+    let content: string;
+    try {
+        content = fs.readFileSync(resolved, 'utf8');
+    } catch (error) {
+        throw configError(`Cannot read config file ${resolved}: ${(error as Error).message}`);
+    }
+
+    try {
+        const config = JSON.parse(content);
+        if (!config || typeof config !== 'object' || Array.isArray(config)) {
+            throw new Error('expected a JSON object');
+        }
+        return { config, dir: path.dirname(resolved) };
+    } catch (error) {
+        throw configError(`Invalid config file ${resolved}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Gộp cấu hình theo thứ tự ưu tiên: tham số dòng lệnh > biến môi trường > file cấu hình
+ */
+function resolveConfig(values: CliValues): CliConfig {
+    const { config: file, dir } = loadConfigFile(values.config);
+    const env = process.env;
+
+    // File key từ tham số/biến môi trường thay thế cả keyFile lẫn serviceAccount của file cấu hình
+    const keyFileOverride = values['key-file'] || env.GA4_KEY_FILE || env.GOOGLE_APPLICATION_CREDENTIALS;
+    const keyFile = keyFileOverride || (file.keyFile ? path.resolve(dir, file.keyFile) : undefined);
+
+    return {
+        propertyId: values['property-id'] || env.GA4_PROPERTY_ID || (file.propertyId ? String(file.propertyId) : undefined),
+        propertyName: values['property-name'] || env.GA4_PROPERTY_NAME || file.propertyName,
+        keyFile: keyFile ? path.resolve(keyFile) : undefined,
+        serviceAccount: keyFileOverride ? undefined : file.serviceAccount,
+        telegramToken: values['telegram-token'] || env.TELEGRAM_BOT_TOKEN || file.telegramToken,
+        telegramChatId: values['chat-id'] || env.TELEGRAM_CHAT_ID || (file.telegramChatId ? String(file.telegramChatId) : undefined),
+        locale: values.locale || env.GA4_LOCALE || file.locale
+    };
+}
+
+function requireGA4Config(config: CliConfig): { propertyId: string; propertyName: string } {
+    if (!config.propertyId) {
+        throw configError('Missing GA4 property ID: use --property-id, GA4_PROPERTY_ID or "propertyId" in the config file');
+    }
+    if (!config.keyFile && !config.serviceAccount) {
+        throw configError('Missing GA4 credentials: use --key-file, GA4_KEY_FILE, GOOGLE_APPLICATION_CREDENTIALS or "keyFile"/"serviceAccount" in the config file');
+    }
+    if (config.keyFile && !config.serviceAccount && !fs.existsSync(config.keyFile)) {
+        throw configError(`Service account key file not found: ${config.keyFile}`);
+    }
+    return { propertyId: config.propertyId, propertyName: config.propertyName || config.propertyId };
+}
+
+function telegramOptions(config: CliConfig, required: boolean): TelegramServiceOptions {
+    if (required && (!config.telegramToken || !config.telegramChatId)) {
+        throw configError('Missing Telegram configuration: use --telegram-token/--chat-id, TELEGRAM_BOT_TOKEN/TELEGRAM_CHAT_ID or "telegramToken"/"telegramChatId" in the config file');
+    }
+    return { token: config.telegramToken, chatId: config.telegramChatId };
+}
+
+function createGA4Service(config: CliConfig): GA4Service {
+    const { propertyId, propertyName } = requireGA4Config(config);
+    return new GA4Service(propertyId, propertyName, config.keyFile, false, config.serviceAccount);
+}
+
+function createInsightsService(config: CliConfig, requireTelegram: boolean): GAInsightsService {
+    const { propertyId, propertyName } = requireGA4Config(config);
+    return parseOption(() => new GAInsightsService(propertyId, propertyName, config.keyFile || '', config.serviceAccount, {
+        telegram: telegramOptions(config, requireTelegram),
+        locale: config.locale
+    }));
+}
+
+// ==== OUTPUT ====
+
+function write(text: string): void {
+    process.stdout.write(text.endsWith('\n') ? text : `${text}\n`);
+}
+
+// Báo cáo HTML của Telegram thành văn bản thuần cho terminal
+function htmlToText(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&');
+}
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+// ==== LỆNH ====
+
+async function reportCommand(args: string[], values: CliValues, config: CliConfig): Promise<number> {
+    const [type] = args;
+    if (type !== 'daily' && type !== 'weekly') {
+        throw usageError('report expects "daily" or "weekly"');
+    }
+
+    const dryRun = !!values['dry-run'];
+    const service = createInsightsService(config, !dryRun);
+    if (type === 'weekly') {
+        service.getSections().register(createWeekComparisonSection());
+    }
+
+    const period: ReportPeriod | undefined = values.period
+        ? parseOption(() => parsePeriod(values.period as string))
+        : type === 'weekly' ? parsePeriod('week') : undefined;
+    const sectionIds = values.sections ? splitList(values.sections) : undefined;
+    const sections = parseOption(() => service.getSections().select(sectionIds));
+
+    if (dryRun) {
+        const digest = await service.buildDigest(sections, { period });
+        write(digest.messages.map(htmlToText).join('\n'));
+        return CLI_EXIT_CODES.OK;
+    }
+
+    const sent = await service.sendDigest(sections, { period });
+    return sent ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.FAILURE;
+}
+
+function parseOrderBy(value: string | undefined, metrics: string[]): GA4OrderBy[] | undefined {
+    const fields = splitList(value);
+    if (fields.length === 0) return undefined;
+
+    return fields.map(field => {
+        const [name, direction] = field.split(':');
+        if (direction !== undefined && direction !== 'asc' && direction !== 'desc') {
+            throw usageError(`Invalid --order-by "${field}". Use field, field:asc or field:desc`);
+        }
+        const isMetric = metrics.includes(name);
+        // Metric mặc định giảm dần, dimension mặc định tăng dần
+        const desc = direction ? direction === 'desc' : isMetric;
+        return isMetric ? { metric: { metricName: name }, desc } : { dimension: { dimensionName: name }, desc };
+    });
+}
+
+async function queryCommand(values: CliValues, config: CliConfig): Promise<number> {
+    const dimensions = splitList(values.dimensions);
+    const metrics = splitList(values.metrics);
+    if (metrics.length === 0) {
+        throw usageError('query requires --metrics');
+    }
+
+    const format = values.format || 'table';
+    if (!QUERY_FORMATS.includes(format)) {
+        throw usageError(`Invalid --format "${format}". Use: ${QUERY_FORMATS.join(', ')}`);
+    }
+
+    const limit = values.limit === undefined ? DEFAULT_QUERY_LIMIT : Number(values.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+        throw usageError(`Invalid --limit "${values.limit}"`);
+    }
+
+    const filters: ParsedFilters = values.filter ? parseOption(() => parseFilterString(values.filter as string, metrics)) : {};
+    parseOption(() => {
+        const context = { dimensions, metrics };
+        if (filters.dimensionFilter) validateFilterExpression(filters.dimensionFilter, 'dimensionFilter', context);
+        if (filters.metricFilter) validateFilterExpression(filters.metricFilter, 'metricFilter', context);
+    });
+    const orderBys = parseOrderBy(values['order-by'], metrics);
+
+    const ga4Service = createGA4Service(config);
+    const report = await ga4Service.getTypedReport(
+        [{ startDate: values.from || '7daysAgo', endDate: values.to || 'yesterday' }],
+        dimensions.map(name => ({ name })),
+        metrics.map(name => ({ name })),
+        filters.dimensionFilter,
+        orderBys,
+        limit,
+        undefined,
+        filters.metricFilter
+    );
+
+    const exportOptions = { includeTotals: !!values.totals };
+    if (format === 'csv') {
+        write(toCsv(report, exportOptions));
+    } else if (format === 'json') {
+        write(toJson(report));
+    } else {
+        write(toTextTable(report, exportOptions));
+    }
+    return CLI_EXIT_CODES.OK;
+}
+
+async function sendCommand(args: string[], values: CliValues, config: CliConfig): Promise<number> {
+    const parseMode = (values['parse-mode'] || 'HTML') as TelegramParseMode;
+    if (!PARSE_MODES.includes(parseMode)) {
+        throw usageError(`Invalid --parse-mode "${parseMode}". Use: ${PARSE_MODES.join(', ')}`);
+    }
+
+    const text = args.length === 1 && args[0] === '-' ? await readStdin() : args.join(' ');
+    if (!text.trim()) {
+        throw usageError('send requires a message, or "-" to read it from stdin');
+    }
+
+    const telegramService = new TelegramService(telegramOptions(config, true));
+    const sent = await telegramService.sendMessage(text, parseMode);
+    return sent ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.FAILURE;
+}
+
+async function testConnectionCommand(args: string[], config: CliConfig): Promise<number> {
+    const [target] = args;
+    if (target !== undefined && target !== 'ga' && target !== 'telegram') {
+        throw usageError('test-connection expects "ga", "telegram" or nothing to test both');
+    }
+
+    // Kiểm tra cấu hình trước khi gọi API
+    const ga4Service = target !== 'telegram' ? createGA4Service(config) : undefined;
+    const telegramService = target !== 'ga' ? new TelegramService(telegramOptions(config, true)) : undefined;
+    let ok = true;
+
+    if (ga4Service) {
+        try {
+            const metadata = await ga4Service.getMetadata();
+            write(`GA4: OK (property ${config.propertyId}, ${metadata.dimensions.length} dimensions, ${metadata.metrics.length} metrics)`);
+        } catch (error) {
+            write(`GA4: FAILED (${(error as Error).message})`);
+            ok = false;
+        }
+    }
+
+    if (telegramService) {
+        const connected = await telegramService.testConnection();
+        write(`Telegram: ${connected ? 'OK' : 'FAILED'}`);
+        ok = ok && connected;
+    }
+
+    return ok ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.FAILURE;
+}
+
+// Lỗi xác thực/quyền là lỗi cấu hình, request bị GA4 từ chối là lỗi tham số
+function exitCodeFor(error: unknown): number {
+    if (error instanceof GA4AuthError || error instanceof GA4PermissionError) return CLI_EXIT_CODES.CONFIG;
+    if (error instanceof GA4InvalidRequestError) return CLI_EXIT_CODES.USAGE;
+    return CLI_EXIT_CODES.FAILURE;
+}
+
+function readVersion(): string {
+    try {
+        return JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8')).version;
+    } catch {
+        return 'unknown';
+    }
+}
+
+/**
+ * Chạy CLI với danh sách tham số (không gồm `node` và tên script)
+ * @returns Mã thoát (xem CLI_EXIT_CODES)
+ */
+export async function run(argv: string[] = process.argv.slice(2)): Promise<number> {
+    try {
+        let parsed: ReturnType<typeof parseCliArgs>;
+        try {
+            parsed = parseCliArgs(argv);
+        } catch (error) {
+            throw usageError((error as Error).message);
+        }
+
+        const { values, positionals } = parsed;
+        const [command, ...args] = positionals;
+        if (values.version) {
+            write(readVersion());
+            return CLI_EXIT_CODES.OK;
+        }
+        if (values.help || !command) {
+            (values.help ? process.stdout : process.stderr).write(USAGE);
+            return values.help ? CLI_EXIT_CODES.OK : CLI_EXIT_CODES.USAGE;
+        }
+        if (values.verbose) {
+            logger.setLevel(LogLevel.DEBUG);
+        }
+
+        const config = resolveConfig(values);
+        switch (command) {
+            case 'report':
+                return await reportCommand(args, values, config);
+            case 'query':
+                return await queryCommand(values, config);
+            case 'send':
+                return await sendCommand(args, values, config);
+            case 'test-connection':
+                return await testConnectionCommand(args, config);
+            default:
+                throw usageError(`Unknown command "${command}"`);
+        }
+    } catch (error) {
+        if (error instanceof CliError) {
+            process.stderr.write(`Error: ${error.message}\n`);
+            if (error.exitCode === CLI_EXIT_CODES.USAGE) {
+                process.stderr.write('Run "ga4-telegram --help" for usage.\n');
+            }
+            return error.exitCode;
+        }
+
+        process.stderr.write(`Error: ${(error as Error).message}\n`);
+        logger.debug('Chi tiết lỗi:', (error as Error).stack);
+        return exitCodeFor(error);
+    }
+}
@@ -0,0 +1,169 @@
+import { GA4PropertyQuota } from "./ga.types";
+import { Translator } from "./i18n";
+
+export interface ToolkitErrorOptions {
+    // Lỗi gốc (lỗi axios, lỗi đọc file...)
+    cause?: unknown;
+}
+
+/**
+ * Lớp gốc của các lỗi do thư viện ném ra, luôn giữ lỗi gốc trong `cause`
+ */
+export class ToolkitError extends Error {
+    readonly cause?: unknown;
+
+    constructor(message: string, options: ToolkitErrorOptions = {}) {
+        super(message);
+        this.name = 'ToolkitError';
+        this.cause = options.cause;
+    }
+}
+
+// ==== GA4 ====
+
+export interface GA4ErrorOptions extends ToolkitErrorOptions {
+    // HTTP status của response
+    status?: number;
+    // Trạng thái lỗi của Google API, ví dụ PERMISSION_DENIED, INVALID_ARGUMENT
+    code?: string;
+    // Nội dung `error` trong response
+    details?: unknown;
+    propertyId?: string;
+}
+
+/**
+ * Lỗi khi gọi GA4 (Data API, Admin API) không thuộc các loại cụ thể bên dưới, ví dụ lỗi 5xx
+ */
+export class GA4Error extends ToolkitError {
+    readonly status?: number;
+    readonly code?: string;
+    readonly details?: unknown;
+    readonly propertyId?: string;
+
+    constructor(message: string, options: GA4ErrorOptions = {}) {
+        super(message, options);
+        this.name = 'GA4Error';
+        this.status = options.status;
+        this.code = options.code;
+        this.details = options.details;
+        this.propertyId = options.propertyId;
+    }
+}
+
+/**
+ * Không xác thực được với Google: thiếu/sai file service account, không đổi được access token, 401
+ */
+export class GA4AuthError extends GA4Error {
+    constructor(message: string, options: GA4ErrorOptions = {}) {
+        super(message, options);
+        this.name = 'GA4AuthError';
+    }
+}
+
+/**
+ * Service account không có quyền truy cập property (403)
+ */
+export class GA4PermissionError extends GA4Error {
+    constructor(message: string, options: GA4ErrorOptions = {}) {
+        super(message, options);
+        this.name = 'GA4PermissionError';
+    }
+}
+
+/**
+ * Request không hợp lệ (400 hoặc kiểm tra theo metadata), kèm tên các dimension/metric bị lỗi nếu xác định được
+ */
+export class GA4InvalidRequestError extends GA4Error {
+    readonly fields: string[];
+
+    constructor(message: string, fields: string[] = [], options: GA4ErrorOptions = {}) {
+        super(message, options);
+        this.name = 'GA4InvalidRequestError';
+        this.fields = fields;
+    }
+}
+
+export interface GA4QuotaErrorOptions extends GA4ErrorOptions {
+    // Quota của property theo response gần nhất
+    quota?: GA4PropertyQuota;
+}
+
+/**
+ * Hết quota của property (429), hoặc quota còn lại dưới ngưỡng quotaGuard
+ */
+export class GA4QuotaError extends GA4Error {
+    readonly quota?: GA4PropertyQuota;
+
+    constructor(message: string, options: GA4QuotaErrorOptions = {}) {
+        super(message, options);
+        this.name = 'GA4QuotaError';
+        this.quota = options.quota;
+    }
+}
+
+// ==== MẠNG ====
+
+export interface NetworkErrorOptions extends ToolkitErrorOptions {
+    // Mã lỗi của Node/axios, ví dụ ECONNREFUSED, ETIMEDOUT
+    code?: string;
+}
+
+/**
+ * Không nhận được response (mất kết nối, timeout, proxy lỗi...) khi gọi GA4 hoặc Telegram
+ */
+export class NetworkError extends ToolkitError {
+    readonly code?: string;
+
+    constructor(message: string, options: NetworkErrorOptions = {}) {
+        super(message, options);
+        this.name = 'NetworkError';
+        this.code = options.code;
+    }
+}
+
+// ==== TELEGRAM ====
+
+export interface TelegramApiErrorOptions extends ToolkitErrorOptions {
+    // Phương thức Bot API, ví dụ sendMessage
+    method?: string;
+    // Số giây phải chờ khi bị giới hạn tốc độ (429)
+    retryAfter?: number;
+}
+
+/**
+ * Telegram Bot API trả về `ok: false`, kèm `error_code` và `description` của Telegram
+ */
+export class TelegramApiError extends ToolkitError {
+    readonly errorCode: number;
+    readonly description: string;
+    readonly method?: string;
+    readonly retryAfter?: number;
+
+    constructor(errorCode: number, description: string, options: TelegramApiErrorOptions = {}) {
+        super(`Telegram API error ${errorCode}${options.method ? ` (${options.method})` : ''}: ${description}`, options);
+        this.name = 'TelegramApiError';
+        this.errorCode = errorCode;
+        this.description = description;
+        this.method = options.method;
+        this.retryAfter = options.retryAfter;
+    }
+}
+
+// Gợi ý theo loại lỗi, lớp con đứng trước lớp cha
+const ERROR_HINTS: [new (...args: any[]) => Error, string][] = [
+    [GA4AuthError, 'error.auth'],
+    [GA4PermissionError, 'error.permission'],
+    [GA4InvalidRequestError, 'error.invalidRequest'],
+    [GA4QuotaError, 'error.quota'],
+    [NetworkError, 'error.network'],
+    [TelegramApiError, 'error.telegram']
+];
+
+/**
+ * Lý do lỗi để báo cho người dùng: gợi ý theo loại lỗi (theo ngôn ngữ) kèm thông báo gốc
+ */
+export function describeError(error: unknown, t: Translator): string {
+    const message = error instanceof Error ? error.message : String(error);
+    const hint = ERROR_HINTS.find(([type]) => error instanceof type);
+    return hint && t.has(hint[1]) ? `${t.t(hint[1])}: ${message}` : message;
+}
@@ -0,0 +1,95 @@
+import { inflateRawSync } from 'zlib';
+import { crc32 } from "../utils/crc32";
+import { toCsv, toTextTable, toXlsx } from "./index";
+import { TypedReport } from "../ga.types";
+
+const report = {
+    dimensionHeaders: ['pagePath'],
+    metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+    rows: [
+        { pagePath: '/a,b', sessions: 10 },
+        { pagePath: 'say "hi"', sessions: 5 },
+        { pagePath: '=HYPERLINK("x")', sessions: 2 },
+        { pagePath: 'Trang chủ', sessions: 1 }
+    ],
+    totals: [{ sessions: 18 }],
+    rowCount: 4
+} as unknown as TypedReport;
+
+// Đọc file ZIP qua central directory, kiểm tra CRC của từng file
+function readZip(buffer: Buffer): Record<string, string> {
+    const endOffset = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    expect(endOffset).toBeGreaterThan(0);
+    const count = buffer.readUInt16LE(endOffset + 10);
+    let offset = buffer.readUInt32LE(endOffset + 16);
+
+    const files: Record<string, string> = {};
+    for (let index = 0; index < count; index++) {
+        expect(buffer.readUInt32LE(offset)).toBe(0x02014b50);
+        const checksum = buffer.readUInt32LE(offset + 16);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+        expect(buffer.readUInt32LE(localOffset)).toBe(0x04034b50);
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        const content = inflateRawSync(buffer.subarray(dataStart, dataStart + compressedSize));
+        expect(crc32(content)).toBe(checksum);
+
+        files[name] = content.toString('utf8');
+        offset += 46 + nameLength + buffer.readUInt16LE(offset + 30) + buffer.readUInt16LE(offset + 32);
+    }
+    return files;
+}
+
+describe('toCsv', () => {
+    it('escape dấu phẩy, ngoặc kép và chặn công thức', () => {
+        expect(toCsv(report).split('\r\n')).toEqual([
+            'pagePath,sessions',
+            '"/a,b",10',
+            '"say ""hi""",5',
+            '"\'=HYPERLINK(""x"")",2',
+            'Trang chủ,1',
+            ''
+        ]);
+    });
+
+    it('thêm dòng tổng và dùng ký tự phân cách tùy chọn', () => {
+        const lines = toCsv(report, { includeTotals: true, totalLabel: 'Tổng', delimiter: ';' }).trim().split('\r\n');
+        expect(lines[1]).toBe('/a,b;10');
+        expect(lines[lines.length - 1]).toBe('Tổng;18');
+    });
+});
+
+describe('toXlsx', () => {
+    it('tạo file ZIP hợp lệ với đủ các phần của workbook', () => {
+        const files = readZip(toXlsx(report, { sheetName: 'Top pages', includeTotals: true }));
+
+        expect(Object.keys(files).sort()).toEqual([
+            '[Content_Types].xml',
+            '_rels/.rels',
+            'xl/_rels/workbook.xml.rels',
+            'xl/styles.xml',
+            'xl/workbook.xml',
+            'xl/worksheets/sheet1.xml'
+        ]);
+        expect(files['xl/workbook.xml']).toContain('<sheet name="Top pages"');
+        expect(files['xl/worksheets/sheet1.xml']).toContain('Trang chủ');
+        expect(files['xl/worksheets/sheet1.xml']).toContain('say &quot;hi&quot;');
+    });
+});
+
+describe('toTextTable', () => {
+    it('căn trái dimension, căn phải metric', () => {
+        expect(toTextTable(report)).toBe([
+            'pagePath         sessions',
+            '---------------  --------',
+            '/a,b                   10',
+            'say "hi"                5',
+            '=HYPERLINK("x")         2',
+            'Trang chủ               1',
+            ''
+        ].join('\n'));
+    });
+});
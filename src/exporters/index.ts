@@ -0,0 +1,164 @@
+import { TypedReport } from "../ga.types";
+import { CellValue, createXlsx } from "./xlsx";
+
+export { createZip, ZipEntry } from "./zip";
+export { createXlsx, CellValue } from "./xlsx";
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface ExportOptions {
+    // Thêm dòng tổng (nếu GA4 trả về totals)
+    includeTotals?: boolean;
+    // Nhãn của dòng tổng (mặc định 'Total')
+    totalLabel?: string;
+    // Ký tự phân cách của CSV (mặc định ',')
+    delimiter?: string;
+    // Tên sheet của XLSX
+    sheetName?: string;
+}
+
+export interface ExportedFile {
+    filename: string;
+    mimeType: string;
+    content: Buffer;
+}
+
+export interface ReportTable {
+    columns: string[];
+    rows: CellValue[][];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv',
+    json: 'application/json',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+// Byte order mark để Excel nhận đúng UTF-8 (tiếng Việt) khi mở CSV
+const UTF8_BOM = '\uFEFF';
+
+/**
+ * Chuyển báo cáo thành bảng: cột dimension trước, cột metric sau
+ */
+export function reportToTable(report: TypedReport, options: ExportOptions = {}): ReportTable {
+    const dimensions = report.dimensionHeaders as string[];
+    const metrics = report.metricHeaders.map(header => header.name as string);
+    const columns = [...dimensions, ...metrics];
+
+    const rows: CellValue[][] = report.rows.map(row => columns.map(column => row[column] ?? ''));
+
+    const totals = report.totals[0];
+    if (options.includeTotals && totals) {
+        rows.push(columns.map((column, index) => {
+            if (index < dimensions.length) return index === 0 ? options.totalLabel || 'Total' : '';
+            return totals[column] ?? '';
+        }));
+    }
+
+    return { columns, rows };
+}
+
+function csvCell(value: CellValue, delimiter: string): string {
+    let text = String(value);
+
+    // Chặn CSV injection: chuỗi bắt đầu bằng ký tự công thức được Excel coi là công thức
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+
+    return text.includes(delimiter) || /["\r\n]/.test(text)
+        ? `"${text.replace(/"/g, '""')}"`
+        : text;
+}
+
+/**
+ * Xuất báo cáo dạng CSV (RFC 4180)
+ */
+export function toCsv(report: TypedReport, options: ExportOptions = {}): string {
+    const delimiter = options.delimiter || ',';
+    const { columns, rows } = reportToTable(report, options);
+
+    return [columns, ...rows]
+        .map(row => row.map(value => csvCell(value, delimiter)).join(delimiter))
+        .join('\r\n') + '\r\n';
+}
+
+/**
+ * Xuất báo cáo dạng JSON: header, các dòng có kiểu, dòng tổng và tổng số dòng
+ */
+export function toJson(report: TypedReport, options: ExportOptions = {}): string {
+    return JSON.stringify({
+        dimensionHeaders: report.dimensionHeaders,
+        metricHeaders: report.metricHeaders,
+        rows: report.rows,
+        ...(options.includeTotals === false ? {} : { totals: report.totals }),
+        rowCount: report.rowCount
+    }, null, 2);
+}
+
+// Độ rộng hiển thị trong terminal (tính theo code point, không theo UTF-16)
+function displayWidth(text: string): number {
+    return Array.from(text).length;
+}
+
+/**
+ * Xuất báo cáo dạng bảng văn bản căn cột (cho terminal); cột metric căn phải
+ */
+export function toTextTable(report: TypedReport, options: ExportOptions = {}): string {
+    const { columns, rows } = reportToTable(report, options);
+    const dimensionCount = report.dimensionHeaders.length;
+    const cells = [columns, ...rows].map(row => row.map(value => String(value)));
+    const widths = columns.map((_, index) => Math.max(...cells.map(row => displayWidth(row[index]))));
+
+    const line = (row: string[]) => row
+        .map((text, index) => {
+            const padding = ' '.repeat(widths[index] - displayWidth(text));
+            return index < dimensionCount ? text + padding : padding + text;
+        })
+        .join('  ')
+        .trimEnd();
+
+    const [header, ...body] = cells;
+    return [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...body.map(line)].join('\n') + '\n';
+}
+
+/**
+ * Xuất báo cáo dạng XLSX một sheet
+ */
+export function toXlsx(report: TypedReport, options: ExportOptions = {}): Buffer {
+    const { columns, rows } = reportToTable(report, options);
+    const hasTotals = !!options.includeTotals && report.totals.length > 0;
+    return createXlsx(columns, rows, options.sheetName || 'Report', hasTotals);
+}
+
+/**
+ * Xuất báo cáo thành file theo định dạng
+ * @param report Kết quả báo cáo (TypedReport/TypedReportResult)
+ * @param format csv, json hoặc xlsx
+ * @param basename Tên file không gồm phần mở rộng
+ * @param options Tùy chọn xuất
+ */
+export function exportReport(
+    report: TypedReport,
+    format: ExportFormat,
+    basename: string = 'report',
+    options: ExportOptions = {}
+): ExportedFile {
+    let content: Buffer;
+
+    switch (format) {
+        case 'csv':
+            content = Buffer.from(UTF8_BOM + toCsv(report, options), 'utf8');
+            break;
+        case 'json':
+            content = Buffer.from(toJson(report, options), 'utf8');
+            break;
+        case 'xlsx':
+            content = toXlsx(report, options);
+            break;
+        default:
+            throw new Error(`Unknown export format "${format}"`);
+    }
+
+    return { filename: `${basename}.${format}`, mimeType: MIME_TYPES[format], content };
+}
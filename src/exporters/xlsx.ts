@@ -0,0 +1,123 @@
+import { createZip } from "./zip";
+
+export type CellValue = string | number;
+
+const MAX_SHEET_NAME_LENGTH = 31;
+const MAX_COLUMN_WIDTH = 60;
+
+// Ký tự điều khiển không hợp lệ trong XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g;
+
+function escapeXml(text: string): string {
+    return text
+        .replace(INVALID_XML_CHARS, '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number): string {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    }
+    return name;
+}
+
+function sanitizeSheetName(name: string): string {
+    const cleaned = name.replace(/[\[\]:*?\/\\]/g, ' ').trim().substring(0, MAX_SHEET_NAME_LENGTH);
+    return cleaned || 'Sheet1';
+}
+
+function cellXml(value: CellValue, reference: string, bold: boolean): string {
+    const style = bold ? ' s="1"' : '';
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"${style}><v>${value}</v></c>`;
+    }
+    return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml(header: string[], rows: CellValue[][], boldLastRow: boolean): string {
+    const allRows: CellValue[][] = [header, ...rows];
+    const widths = header.map((_, column) =>
+        Math.min(MAX_COLUMN_WIDTH, Math.max(...allRows.map(row => String(row[column] ?? '').length)) + 2)
+    );
+
+    const cols = widths
+        .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+        .join('');
+
+    const rowsXml = allRows.map((row, rowIndex) => {
+        const bold = rowIndex === 0 || (boldLastRow && rowIndex === allRows.length - 1);
+        const cells = row.map((value, column) => cellXml(value, `${columnName(column)}${rowIndex + 1}`, bold)).join('');
+        return `<row r="${rowIndex + 1}">${cells}</row>`;
+    }).join('');
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<cols>${cols}</cols>`
+        + `<sheetData>${rowsXml}</sheetData>`
+        + '</worksheet>';
+}
+
+/**
+ * Tạo file XLSX một sheet: dòng đầu là tiêu đề (in đậm, cố định khi cuộn)
+ * @param header Tên cột
+ * @param rows Dữ liệu, số được ghi dạng số để tính toán được trong Excel
+ * @param sheetName Tên sheet
+ * @param boldLastRow In đậm dòng cuối (dòng tổng)
+ */
+export function createXlsx(header: string[], rows: CellValue[][], sheetName: string = 'Sheet1', boldLastRow: boolean = false): Buffer {
+    const name = escapeXml(sanitizeSheetName(sheetName));
+
+    return createZip([
+        {
+            name: '[Content_Types].xml',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+                + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+                + '</Types>'
+        },
+        {
+            name: '_rels/.rels',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+                + '</Relationships>'
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+                + `<sheets><sheet name="${name}" sheetId="1" r:id="rId1"/></sheets>`
+                + '</workbook>'
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+                + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+                + '</Relationships>'
+        },
+        {
+            name: 'xl/styles.xml',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+                + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+                + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+                + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+                + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+                + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+                + '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+                + '</styleSheet>'
+        },
+        { name: 'xl/worksheets/sheet1.xml', content: sheetXml(header, rows, boldLastRow) }
+    ]);
+}
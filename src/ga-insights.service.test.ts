@@ -0,0 +1,36 @@
+import { AxiosInstance } from 'axios';
+import { GAInsightsService } from "./ga-insights.service";
+import { TelegramService } from "./telegram.service";
+import { GA4Error } from "./errors";
+import { logger } from "./utils/logger";
+
+describe('GAInsightsService với throwOnError', () => {
+    let post: jest.Mock;
+    let service: GAInsightsService;
+
+    beforeEach(() => {
+        jest.spyOn(logger, 'info').mockImplementation(() => undefined);
+        jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        post = jest.fn(async () => ({ status: 200, data: { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' } }));
+        const telegram = new TelegramService({ token: '123:abc', chatId: '42', throwOnError: true }, { post } as unknown as AxiosInstance);
+        service = new GAInsightsService('123', 'Test', '', undefined, { telegram });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('trả về kết quả thất bại khi không gửi được thông báo lỗi', async () => {
+        const ga4Service = service.getGA4Service();
+        jest.spyOn(service, 'sendDigest').mockRejectedValue(new GA4Error('Internal error', { status: 500 }));
+        jest.spyOn(ga4Service, 'getFunnelReport').mockRejectedValue(new GA4Error('Internal error', { status: 500 }));
+        jest.spyOn(ga4Service, 'detectAnomalies').mockRejectedValue(new GA4Error('Internal error', { status: 500 }));
+
+        await expect(service.sendDailyGAInsights()).resolves.toBe(false);
+        await expect(service.sendRealtimeSnapshot(0)).resolves.toBe(false);
+        await expect(service.sendFunnelSummary('Checkout', [{ name: 'Mua', eventName: 'purchase' }])).resolves.toBe(false);
+        await expect(service.checkAnomalies()).resolves.toBeUndefined();
+        expect(post).toHaveBeenCalledTimes(4);
+    });
+});
@@ -1,206 +1,690 @@
 import { logger } from "./utils/logger";
-import { GA4Service, GoogleServiceAccountKeyInput } from "./ga.service";
-import { TelegramService } from "./telegram.service";
-import * as dotenv from 'dotenv';
+import { GA4Service, GA4ServiceOptions, GoogleServiceAccountKeyInput } from "./ga.service";
+import { TelegramPhoto, TelegramService, TelegramServiceOptions } from "./telegram.service";
+import { AlertSeverity, TelegramRoute, TelegramRouter } from "./telegram-router";
+import { FunnelReportResult, FunnelStepDefinition, PivotMatrix, TypedReportResult } from "./ga.types";
+import { formatPivotTable, PivotTableLabels, PivotTableOptions } from "./utils/pivot";
+import {
+    AnyReportSection,
+    buildSectionQuery,
+    createDefaultSectionRegistry,
+    REPORT_BREAKDOWNS,
+    renderSection,
+    renderSectionChart,
+    ReportBreakdown,
+    ReportSectionRegistry,
+    SectionAttachment,
+    sectionTopN,
+    supportsBreakdown
+} from "./report-sections";
+import { stringFilter } from "./utils/filters";
+import { exportReport } from "./exporters";
+import { DEFAULT_LOCALE, getTranslator, Translator } from "./i18n";
+import { escapeHtml, InlineKeyboardMarkup, TelegramMessageBuilder } from "./utils/telegram-message";
+import { ALL_SECTIONS_SCOPE, buildReportKeyboard } from "./utils/report-keyboard";
+import { formatPeriod, ReportPeriod } from "./utils/periods";
+import { AnomalyOptions, AnomalyReport, formatAnomalyAlert, hasAnomaly } from "./utils/anomaly";
+import { AlertRule, AlertRuleEngine, AlertRuleResult, FileAlertStateStore, loadAlertRules } from "./alert-rules";
+import { ReportScheduler, ReportSchedulerOptions } from "./scheduler";
+import { describeError } from "./errors";
+import 'dotenv/config';
+
+// Tùy chọn bổ sung cho GAInsightsService
+export interface GAInsightsServiceOptions {
+    // Danh sách section của báo cáo (mặc định 5 section của báo cáo hàng ngày)
+    sections?: ReportSectionRegistry;
+    // Ngôn ngữ mặc định của tin nhắn, ví dụ 'vi', 'en' hoặc locale đã đăng ký (mặc định 'vi')
+    locale?: string;
+    // Gửi kèm biểu đồ PNG của các section có khai báo `chart` (mặc định false)
+    charts?: boolean;
+    // Gửi kèm file dữ liệu của các section có khai báo `attachment` (mặc định false)
+    attachments?: boolean;
+    // Gắn bàn phím điều hướng (khoảng thời gian, trang, breakdown) dưới báo cáo;
+    // cần TelegramBotService đang chạy để xử lý nút bấm (mặc định false)
+    keyboard?: boolean;
+    // Cấu hình Telegram (token, chat, topic, parse mode, proxy) hoặc instance có sẵn (mặc định đọc từ biến môi trường)
+    telegram?: TelegramService | TelegramServiceOptions;
+    // Gửi section / cảnh báo tới chat hoặc topic riêng theo quy tắc
+    routes?: TelegramRoute[];
+    // Tùy chọn của GA4Service (retry, returnPropertyQuota, ngưỡng quotaGuard...)
+    ga4?: GA4ServiceOptions;
+    // Quy tắc cảnh báo theo ngưỡng, hoặc đường dẫn file JSON chứa quy tắc
+    alertRules?: AlertRule[] | string;
+    // File JSON lưu trạng thái chống gửi trùng của quy tắc (mặc định chỉ lưu trong bộ nhớ)
+    alertStateFile?: string;
+}
+
+// Tùy chọn cho một lần gửi báo cáo, ghi đè tùy chọn của service
+export interface DigestSendOptions {
+    locale?: string;
+    charts?: boolean;
+    attachments?: boolean;
+    keyboard?: boolean;
+    // Khoảng thời gian cho các section hỗ trợ chọn thời gian (mặc định theo từng section)
+    period?: ReportPeriod;
+    // Trang của các section có `pageable` (bắt đầu từ 0)
+    page?: number;
+    // Chia nhỏ từng section theo dimension (không gửi kèm biểu đồ và file khi dùng breakdown)
+    breakdown?: ReportBreakdown;
+}
+
+// Tùy chọn kiểm tra bất thường
+export interface AnomalyAlertOptions extends AnomalyOptions {
+    // Số tuần baseline (mặc định 4)
+    weeks?: number;
+    // Ghi đè mức cảnh báo (mặc định 'critical' khi giảm, 'warning' khi tăng)
+    severity?: AlertSeverity;
+    locale?: string;
+}
 
-dotenv.config();
+// Báo cáo đã định dạng, chưa gửi
+export interface DigestMessages {
+    messages: string[];
+    // Còn trang tiếp theo ở ít nhất một section có `pageable`
+    hasNextPage: boolean;
+    // Bàn phím điều hướng (khi bật `keyboard`), gắn vào tin nhắn cuối
+    keyboard?: InlineKeyboardMarkup;
+    // Số token quota GA4 (theo ngày) đã dùng để tạo báo cáo
+    tokensConsumed: number;
+}
+
+// Dữ liệu của một section; khi có breakdown mỗi giá trị là một phần riêng
+interface SectionPart {
+    label?: string;
+    data: TypedReportResult<string, string>;
+}
+
+// Dữ liệu đã thu thập của một báo cáo
+interface CollectedDigest extends DigestMessages {
+    t: Translator;
+    sectionResults: TypedReportResult<string, string>[];
+    attachments: { section: AnyReportSection; data: TypedReportResult<string, string> }[];
+}
 
-interface InsightReport {
-    title: string;
-    data: any;
+// Nhãn của bảng pivot theo ngôn ngữ của báo cáo
+function pivotLabels(t: Translator): PivotTableLabels {
+    return {
+        total: t.t('pivot.total'),
+        hidden: (rows, columns) => t.t('pivot.hidden', { rows, columns })
+    };
 }
 
 export class GAInsightsService {
     private ga4Service: GA4Service;
     private telegramService: TelegramService;
+    private router: TelegramRouter;
+    private sections: ReportSectionRegistry;
+    private locale: string;
+    private charts: boolean;
+    private attachments: boolean;
+    private keyboard: boolean;
+    private alertEngine: AlertRuleEngine;
+
+    constructor(
+        ga4PropertyId: string,
+        ga4PropertyName: string,
+        keyFilePath: string,
+        serviceAccountObj?: GoogleServiceAccountKeyInput,
+        options: GAInsightsServiceOptions = {}
+    ) {
+        this.ga4Service = new GA4Service(ga4PropertyId, ga4PropertyName, keyFilePath, false, serviceAccountObj, options.ga4);
+        this.telegramService = options.telegram instanceof TelegramService
+            ? options.telegram
+            : new TelegramService(options.telegram);
+        this.router = new TelegramRouter(this.telegramService, options.routes);
+        this.sections = options.sections || createDefaultSectionRegistry();
+        this.locale = options.locale || DEFAULT_LOCALE;
+        this.charts = options.charts ?? false;
+        this.attachments = options.attachments ?? false;
+        this.keyboard = options.keyboard ?? false;
+        this.alertEngine = new AlertRuleEngine(this.ga4Service, this.router, {
+            rules: typeof options.alertRules === 'string' ? loadAlertRules(options.alertRules) : options.alertRules,
+            store: options.alertStateFile ? new FileAlertStateStore(options.alertStateFile) : undefined,
+            locale: this.locale
+        });
+        // Báo lỗi ngay nếu locale chưa được đăng ký
+        getTranslator(this.locale);
+    }
 
-    constructor(ga4PropertyId: string, ga4PropertyName: string, keyFilePath: string, serviceAccountObj?: GoogleServiceAccountKeyInput) {
-        this.ga4Service = new GA4Service(ga4PropertyId, ga4PropertyName, keyFilePath, false, serviceAccountObj);
-        this.telegramService = new TelegramService();
+    /**
+     * GA4Service của property, dùng để chạy truy vấn riêng
+     */
+    getGA4Service(): GA4Service {
+        return this.ga4Service;
     }
 
     /**
-     * Gửi báo cáo từ Google Analytics qua Telegram
+     * Registry section của báo cáo, dùng để thêm section tùy chỉnh hoặc sắp xếp lại
      */
-    async sendDailyGAInsights(): Promise<boolean> {
-        try {
-            logger.info('Đang thu thập thông tin Google Analytics...');
-
-            // Thu thập dữ liệu từ nhiều báo cáo GA
-            const [
-                usersByCountry,
-                deviceSessions,
-                topPages,
-                channelConversions,
-                trafficComparison
-            ] = await Promise.all([
-                this.ga4Service.getUsersByCountry(),
-                this.ga4Service.getSessionsByDeviceCategory('yesterday', 'yesterday'),
-                this.ga4Service.getPopularPagesWithEngagement('7daysAgo', 'yesterday', 5),
-                this.ga4Service.getConversionsBySourceMedium('7daysAgo', 'yesterday', 5),
-                this.ga4Service.compareTodayVsYesterday('sessions')
-            ]);
+    getSections(): ReportSectionRegistry {
+        return this.sections;
+    }
 
-            // Định dạng thông tin
-            const formattedMessage = this.formatGAInsightsReport([
-                { title: '📊 Người dùng theo quốc gia (hôm qua)', data: usersByCountry },
-                { title: '📱 Phiên theo thiết bị (hôm qua)', data: deviceSessions },
-                { title: '📄 Trang phổ biến (7 ngày qua)', data: topPages },
-                { title: '🔄 Chuyển đổi theo nguồn (7 ngày qua)', data: channelConversions },
-                { title: '📈 So sánh lưu lượng (hôm nay vs hôm qua)', data: trafficComparison }
-            ]);
+    /**
+     * Ngôn ngữ mặc định của tin nhắn
+     */
+    getLocale(): string {
+        return this.locale;
+    }
+
+    /**
+     * Bộ định tuyến Telegram, dùng để thêm quy tắc gửi section / cảnh báo tới chat khác
+     */
+    getTelegramRouter(): TelegramRouter {
+        return this.router;
+    }
+
+    /**
+     * Bộ quy tắc cảnh báo theo ngưỡng, dùng để thêm quy tắc hoặc chạy định kỳ bằng start()
+     */
+    getAlertEngine(): AlertRuleEngine {
+        return this.alertEngine;
+    }
+
+    /**
+     * Đánh giá các quy tắc cảnh báo và gửi cảnh báo cho quy tắc vượt ngưỡng (có chống gửi trùng)
+     */
+    async checkAlertRules(): Promise<AlertRuleResult[]> {
+        return this.alertEngine.run();
+    }
+
+    /**
+     * Tạo scheduler chạy báo cáo / cảnh báo theo cron, mặc định theo múi giờ của property GA4
+     * @example
+     * const scheduler = gaInsightsService.createScheduler({ stateFile: './.state/scheduler.json' });
+     * scheduler.addJob({ id: 'daily', cron: '0 8 * * *', run: () => gaInsightsService.sendDailyGAInsights() });
+     * await scheduler.start();
+     */
+    createScheduler(options: ReportSchedulerOptions = {}): ReportScheduler {
+        return new ReportScheduler({
+            resolveTimeZone: () => this.ga4Service.getPropertyTimeZone(),
+            ...options
+        });
+    }
 
-            // Gửi tin nhắn
-            logger.info('Đang gửi báo cáo Google Analytics qua Telegram...');
-            return await this.telegramService.sendMessage(formattedMessage);
+    private translator(locale?: string): Translator {
+        return getTranslator(locale || this.locale);
+    }
+
+    // Gửi thông báo lỗi (HTML) mà không ném lỗi, kể cả khi TelegramService bật throwOnError,
+    // để phương thức gọi vẫn trả về kết quả thất bại thay vì reject vì lần gửi này
+    private async reportError(message: string, severity?: AlertSeverity): Promise<void> {
+        const telegram = severity ? this.router.forSeverity(severity) : this.telegramService;
+        try {
+            await telegram.sendMessage(message, 'HTML');
+        } catch (error) {
+            logger.error('Không gửi được thông báo lỗi qua Telegram:', error);
+        }
+    }
+
+    /**
+     * Gửi báo cáo từ Google Analytics qua Telegram
+     * @param sectionIds Chọn và sắp xếp section theo id (mặc định tất cả section đã đăng ký)
+     * @param options Ngôn ngữ, biểu đồ, file đính kèm cho lần gửi này (mặc định theo tùy chọn của service)
+     */
+    async sendDailyGAInsights(sectionIds?: string[], options: DigestSendOptions = {}): Promise<boolean> {
+        const t = this.translator(options.locale);
+        try {
+            return await this.sendDigest(this.sections.select(sectionIds), options);
         } catch (error) {
             logger.error('Lỗi khi thu thập và gửi thông tin GA:', error);
-            await this.telegramService.sendMessage('❌ Không thể thu thập dữ liệu Google Analytics: ' + (error as Error).message);
+            await this.reportError(t.t('report.error', { message: escapeHtml(describeError(error, t)) }));
+            return false;
+        }
+    }
+
+    /**
+     * Thu thập dữ liệu cho danh sách section và gửi thành một báo cáo
+     * @param sections Các section theo thứ tự hiển thị
+     * @param options Ngôn ngữ, biểu đồ, file đính kèm cho lần gửi này
+     */
+    async sendDigest(sections: AnyReportSection[], options: DigestSendOptions = {}): Promise<boolean> {
+        // Dừng báo cáo định kỳ khi quota giờ/ngày của property sắp hết, tránh làm hỏng các báo cáo khác
+        const quotaProblem = this.ga4Service.checkQuota();
+        if (quotaProblem) {
+            logger.warn(`Bỏ qua báo cáo: ${quotaProblem}`);
+            const t = this.translator(options.locale);
+            await this.sendAlert(t.t('quota.skipped', { reason: escapeHtml(quotaProblem) }), 'warning');
             return false;
         }
+
+        const before = this.telegramService.getDeliverySummary();
+
+        // Section được định tuyến tới chat khác được gửi thành báo cáo riêng cho chat đó
+        let sent = true;
+        for (const group of this.router.groupSections(sections)) {
+            sent = await this.sendDigestTo(group.telegram, group.sections, options) && sent;
+        }
+
+        // Các đích dùng chung hàng đợi gửi nên thống kê gồm mọi tin nhắn của báo cáo
+        const after = this.telegramService.getDeliverySummary();
+        logger.info(`Telegram: đã gửi ${after.delivered - before.delivered}, bỏ qua ${after.dropped - before.dropped}, thử lại ${after.retried - before.retried}`);
+        return sent;
+    }
+
+    private async sendDigestTo(telegram: TelegramService, sections: AnyReportSection[], options: DigestSendOptions): Promise<boolean> {
+        const { t, messages, keyboard, sectionResults, attachments, tokensConsumed } = await this.collectDigest(sections, options);
+        logger.info(`Báo cáo đã dùng ${tokensConsumed} token quota GA4`);
+
+        // Gửi tin nhắn
+        logger.info('Đang gửi báo cáo Google Analytics qua Telegram...');
+        let sent = await telegram.sendMessage(messages, 'HTML', keyboard);
+        if (!sent) return false;
+
+        if ((options.charts ?? this.charts) && !options.breakdown) {
+            sent = await this.sendSectionCharts(telegram, sections, sectionResults, t, options.period);
+        }
+
+        for (const { section, data } of attachments) {
+            sent = await this.sendSectionAttachment(telegram, section, data, t, options.period) && sent;
+        }
+
+        return sent;
+    }
+
+    /**
+     * Gửi cảnh báo (HTML) tới chat được định tuyến cho mức cảnh báo
+     * @param message Nội dung cảnh báo
+     * @param severity Mức cảnh báo (mặc định 'warning')
+     */
+    async sendAlert(message: string | string[], severity: AlertSeverity = 'warning'): Promise<boolean> {
+        return this.router.forSeverity(severity).sendMessage(message, 'HTML');
+    }
+
+    /**
+     * Thu thập dữ liệu và định dạng báo cáo mà không gửi, ví dụ để bot trả lời trực tiếp
+     * @param sections Các section theo thứ tự hiển thị
+     * @param options Ngôn ngữ, khoảng thời gian, trang và breakdown cho lần tạo này
+     * @returns Các tin nhắn HTML (mỗi tin nhắn không vượt quá giới hạn của Telegram) và bàn phím điều hướng
+     */
+    async buildDigest(sections: AnyReportSection[], options: DigestSendOptions = {}): Promise<DigestMessages> {
+        const { messages, hasNextPage, keyboard, tokensConsumed } = await this.collectDigest(sections, { ...options, attachments: false });
+        return { messages, hasNextPage, keyboard, tokensConsumed };
+    }
+
+    private async collectDigest(sections: AnyReportSection[], options: DigestSendOptions): Promise<CollectedDigest> {
+        logger.info('Đang thu thập thông tin Google Analytics...');
+        const { period, page, breakdown } = options;
+
+        // Mỗi section một truy vấn, hoặc một truy vấn có lọc cho mỗi giá trị của breakdown
+        const partQueries = sections.map(section => breakdown && supportsBreakdown(section, breakdown)
+            ? breakdown.values.map(value => ({
+                label: value,
+                query: buildSectionQuery(section, { period, page, filter: stringFilter(breakdown.dimension, value) })
+            }))
+            : [{ label: undefined, query: buildSectionQuery(section, { period, page }) }]);
+        const queries = partQueries.flat().map(part => part.query);
+
+        // Section có file đính kèm riêng (ví dụ toàn bộ dữ liệu thay vì top 5) cần thêm truy vấn
+        const attachmentSections = (options.attachments ?? this.attachments) && !breakdown
+            ? sections.filter(section => section.attachment)
+            : [];
+        const attachmentQueries = attachmentSections
+            .flatMap(section => (section.attachment?.query ? [section.attachment.query(period)] : []));
+
+        // Thu thập dữ liệu từ nhiều báo cáo GA trong một lần gọi batchRunReports
+        const usageBefore = this.ga4Service.getQuotaUsage();
+        const results = await this.ga4Service.runQueries([...queries, ...attachmentQueries]);
+        const tokensConsumed = this.ga4Service.getQuotaUsage().tokensConsumed - usageBefore.tokensConsumed;
+
+        let resultIndex = 0;
+        const sectionParts: SectionPart[][] = partQueries.map(parts =>
+            parts.map(part => ({ label: part.label, data: results[resultIndex++] }))
+        );
+        const sectionResults = sectionParts.map(parts => parts[0].data);
+
+        const attachments = attachmentSections.map(section => ({
+            section,
+            data: section.attachment?.query
+                ? results[resultIndex++]
+                : sectionResults[sections.indexOf(section)]
+        }));
+
+        // rowCount là tổng số dòng phía GA4, không phụ thuộc limit/offset của trang hiện tại
+        const hasNextPage = sections.some((section, index) => section.pageable && sectionParts[index].some(({ data }) =>
+            data.rowCount > ((page ?? 0) + 1) * sectionTopN(section)
+        ));
+
+        // Định dạng thông tin, tách thành nhiều tin nhắn theo section nếu quá dài
+        const t = this.translator(options.locale);
+        const messages = this.formatGAInsightsReport(sections, sectionParts, t, period);
+        const keyboard = (options.keyboard ?? this.keyboard)
+            ? this.digestKeyboard(sections, options, hasNextPage, t)
+            : undefined;
+
+        return { t, messages, hasNextPage, keyboard, tokensConsumed, sectionResults, attachments };
+    }
+
+    /**
+     * Bàn phím điều hướng của báo cáo; với một section có thêm nút trang và breakdown
+     */
+    private digestKeyboard(
+        sections: AnyReportSection[],
+        options: DigestSendOptions,
+        hasNextPage: boolean,
+        t: Translator
+    ): InlineKeyboardMarkup {
+        const section = sections.length === 1 ? sections[0] : undefined;
+        const view = {
+            scope: section ? section.id : ALL_SECTIONS_SCOPE,
+            period: options.period?.id,
+            page: options.page ?? 0,
+            breakdown: options.breakdown?.id
+        };
+
+        return buildReportKeyboard(view, t, {
+            // Section không hỗ trợ chọn thời gian thì không có nút khoảng thời gian
+            periods: section ? !!section.periodTitle : true,
+            hasNextPage,
+            breakdowns: section
+                ? REPORT_BREAKDOWNS
+                    .filter(breakdown => supportsBreakdown(section, breakdown))
+                    .map(breakdown => ({ id: breakdown.id, label: t.t(`keyboard.breakdown.${breakdown.id}`) }))
+                : []
+        });
+    }
+
+    /**
+     * Tiêu đề của section, kèm khoảng thời gian nếu section hỗ trợ chọn thời gian
+     */
+    private sectionTitle(section: AnyReportSection, t: Translator, period?: ReportPeriod): string {
+        return period && section.periodTitle
+            ? t.t(section.periodTitle, { period: formatPeriod(period, t) })
+            : t.t(section.title);
+    }
+
+    /**
+     * Gửi biểu đồ của các section sau phần chữ, theo thứ tự section
+     */
+    private async sendSectionCharts(
+        telegram: TelegramService,
+        sections: AnyReportSection[],
+        results: TypedReportResult<string, string>[],
+        t: Translator,
+        period?: ReportPeriod
+    ): Promise<boolean> {
+        const photos: TelegramPhoto[] = [];
+        sections.forEach((section, index) => {
+            const photo = renderSectionChart(section, results[index], t);
+            if (photo) {
+                photos.push({ photo, caption: escapeHtml(this.sectionTitle(section, t, period)), filename: `${section.id}.png` });
+            }
+        });
+        if (photos.length === 0) return true;
+
+        logger.info(`Đang gửi ${photos.length} biểu đồ qua Telegram...`);
+        return telegram.sendMediaGroup(photos, 'HTML');
+    }
+
+    /**
+     * Gửi dữ liệu đầy đủ của section dưới dạng file
+     */
+    private async sendSectionAttachment(
+        telegram: TelegramService,
+        section: AnyReportSection,
+        data: TypedReportResult<string, string>,
+        t: Translator,
+        period?: ReportPeriod
+    ): Promise<boolean> {
+        if (!data || data.rows.length === 0) return true;
+
+        const { format } = section.attachment as SectionAttachment;
+        const date = new Date().toISOString().substring(0, 10);
+        const file = exportReport(data, format, `${section.id}-${date}`, { includeTotals: true, sheetName: section.id });
+        const caption = t.t('export.caption', { title: escapeHtml(this.sectionTitle(section, t, period)), count: data.rows.length });
+
+        logger.info(`Đang gửi file ${file.filename} qua Telegram...`);
+        return telegram.sendDocument(file.content, file.filename, caption, 'HTML', file.mimeType);
     }
 
     /**
      * Định dạng báo cáo GA để hiển thị trên Telegram
      */
-    private formatGAInsightsReport(reports: InsightReport[]): string {
-        const currentDate = new Date().toLocaleDateString('vi-VN', {
+    private formatGAInsightsReport(
+        sections: AnyReportSection[],
+        sectionParts: SectionPart[][],
+        t: Translator,
+        period?: ReportPeriod
+    ): string[] {
+        const currentDate = t.date(new Date(), {
             weekday: 'long',
             year: 'numeric',
             month: 'long',
             day: 'numeric'
         });
 
-        let message = `<b>📊 BÁO CÁO GOOGLE ANALYTICS</b>\n`;
-        message += `<i>${currentDate}</i>\n`;
-        message += `<i>Service: ${this.ga4Service.getName()}</i>\n\n`;
+        const message = new TelegramMessageBuilder('HTML')
+            .bold(t.t('report.title')).newline()
+            .italic(currentDate).newline()
+            .italic(t.t('common.service', { name: this.ga4Service.getName() })).newline()
+            .newline();
+
+        sections.forEach((section, index) => {
+            message.section().bold(this.sectionTitle(section, t, period)).newline();
+            for (const { label, data } of sectionParts[index]) {
+                if (label !== undefined) message.italic(`▸ ${label}`).newline();
+                message.raw(renderSection(section, data, t));
+            }
+            message.newline();
+        });
 
-        for (const report of reports) {
-            message += `<b>${report.title}</b>\n`;
+        return message.build();
+    }
 
-            if (!report.data || !report.data.data || report.data.data.length === 0) {
-                message += '- Không có dữ liệu\n\n';
-                continue;
-            }
+    /**
+     * Gửi ảnh chụp lưu lượng thời gian thực ("ngay lúc này") qua Telegram
+     * @param minutes Số phút gần nhất (1-30)
+     * @param locale Ngôn ngữ cho lần gửi này
+     */
+    async sendRealtimeSnapshot(minutes: number = 30, locale?: string): Promise<boolean> {
+        const t = this.translator(locale);
+        try {
+            logger.info('Đang thu thập dữ liệu Google Analytics thời gian thực...');
 
-            // Format dữ liệu từng báo cáo
-            if (report.title.includes('Người dùng theo quốc gia')) {
-                message += this.formatCountryReport(report.data);
-            } else if (report.title.includes('Phiên theo thiết bị')) {
-                message += this.formatDeviceReport(report.data);
-            } else if (report.title.includes('Trang phổ biến')) {
-                message += this.formatPagesReport(report.data);
-            } else if (report.title.includes('Chuyển đổi theo nguồn')) {
-                message += this.formatConversionsReport(report.data);
-            } else if (report.title.includes('So sánh lưu lượng')) {
-                message += this.formatComparisonReport(report.data);
-            }
+            const [byPage, byCountry, byDevice, byMinute] = await Promise.all([
+                this.ga4Service.getRealtimeActiveUsersByPage(minutes, 5),
+                this.ga4Service.getRealtimeActiveUsersByCountry(minutes, 5),
+                this.ga4Service.getRealtimeActiveUsersByDevice(minutes),
+                this.ga4Service.getRealtimeActiveUsersByMinute(minutes)
+            ]);
 
-            message += '\n';
-        }
+            const formattedMessage = this.formatRealtimeSnapshot(minutes, byPage, byCountry, byDevice, byMinute, t);
 
-        return message;
+            logger.info('Đang gửi báo cáo thời gian thực qua Telegram...');
+            return await this.telegramService.sendMessage(formattedMessage, 'HTML');
+        } catch (error) {
+            logger.error('Lỗi khi thu thập và gửi dữ liệu thời gian thực:', error);
+            await this.reportError(t.t('realtime.error', { message: escapeHtml(describeError(error, t)) }));
+            return false;
+        }
     }
 
     /**
-     * Định dạng báo cáo người dùng theo quốc gia
+     * Định dạng ảnh chụp thời gian thực
      */
-    private formatCountryReport(data: any): string {
-        let result = '';
-        let total = 0;
-
-        for (const item of data.data.slice(0, 5)) {
-            total += parseInt(item.totalUsers);
-            result += `- ${item.country}: ${item.totalUsers} người dùng (${item.sessions} phiên)\n`;
+    private formatRealtimeSnapshot(
+        minutes: number,
+        byPage: TypedReportResult<'unifiedScreenName', 'activeUsers'>,
+        byCountry: TypedReportResult<'country', 'activeUsers'>,
+        byDevice: TypedReportResult<'deviceCategory', 'activeUsers'>,
+        byMinute: TypedReportResult<'minutesAgo', 'activeUsers'>,
+        t: Translator
+    ): string {
+        const currentTime = t.time(new Date());
+        const activeUsers = byDevice.totals[0]?.activeUsers
+            ?? byDevice.rows.reduce((sum, row) => sum + row.activeUsers, 0);
+
+        let message = `<b>${t.t('realtime.title')}</b>\n`;
+        message += `<i>${currentTime}</i>\n`;
+        message += `<i>${escapeHtml(t.t('common.service', { name: this.ga4Service.getName() }))}</i>\n\n`;
+        message += `${t.t('realtime.activeUsers', { minutes, count: activeUsers })}\n`;
+
+        // Số người dùng theo từng phút, phút hiện tại đứng đầu
+        const perMinute = [...byMinute.rows]
+            .sort((a, b) => Number(a.minutesAgo) - Number(b.minutesAgo))
+            .slice(0, 5)
+            .map(row => t.number(row.activeUsers));
+        if (perMinute.length > 0) {
+            message += `${t.t('realtime.lastMinutes', { values: perMinute.join(' · ') })}\n`;
         }
+        message += '\n';
+
+        const sections: [string, TypedReportResult<string, 'activeUsers'>, string][] = [
+            [t.t('realtime.pages'), byPage, 'unifiedScreenName'],
+            [t.t('realtime.countries'), byCountry, 'country'],
+            [t.t('realtime.devices'), byDevice, 'deviceCategory']
+        ];
+
+        for (const [title, report, dimension] of sections) {
+            message += `<b>${title}</b>\n`;
+
+            if (report.rows.length === 0) {
+                message += `- ${t.t('common.noData')}\n\n`;
+                continue;
+            }
 
-        if (data.data.length > 5) {
-            result += `- <i>... và ${data.data.length - 5} quốc gia khác</i>\n`;
+            for (const row of report.rows.slice(0, 5)) {
+                message += `- ${escapeHtml(row[dimension] || '(not set)')}: ${t.t('unit.users', { count: row.activeUsers })}\n`;
+            }
+            message += '\n';
         }
 
-        result += `<b>Tổng: ${total} người dùng</b>\n`;
-        return result;
+        return message;
     }
 
     /**
-     * Định dạng báo cáo phiên theo thiết bị
+     * Gửi bảng chéo (pivot) dạng bảng monospace qua Telegram
+     * @param title Tiêu đề bảng
+     * @param matrix Ma trận pivot (xem GA4Service.getPivotMatrix)
+     * @param options Tùy chọn hiển thị bảng
+     * @param locale Ngôn ngữ cho lần gửi này
      */
-    private formatDeviceReport(data: any): string {
-        let result = '';
-        let total = 0;
-
-        for (const item of data.data) {
-            const sessions = parseInt(item.totalUsers);
-            total += sessions;
-            result += `- ${item.country}: ${sessions} phiên\n`;
+    async sendPivotTable(
+        title: string,
+        matrix: PivotMatrix,
+        options: PivotTableOptions = {},
+        locale?: string
+    ): Promise<boolean> {
+        const t = this.translator(locale);
+        let message = `<b>${escapeHtml(title)}</b>\n`;
+        message += `<i>${escapeHtml(`${t.t('common.service', { name: this.ga4Service.getName() })} · ${matrix.metric}`)}</i>\n\n`;
+
+        if (matrix.rowLabels.length === 0) {
+            message += `- ${t.t('common.noData')}\n`;
+        } else {
+            message += formatPivotTable(matrix, pivotLabels(t), { showTotals: true, ...options });
         }
 
-        result += `<b>Tổng: ${total} phiên</b>\n`;
-        return result;
+        logger.info('Đang gửi bảng pivot qua Telegram...');
+        return this.telegramService.sendMessage(message, 'HTML');
     }
 
     /**
-     * Định dạng báo cáo trang phổ biến
+     * Gửi tóm tắt phễu chuyển đổi qua Telegram
+     * @param title Tiêu đề phễu
+     * @param steps Các bước theo thứ tự (eventName hoặc pagePath)
+     * @param startDate Ngày bắt đầu
+     * @param endDate Ngày kết thúc
+     * @param breakdownDimension Dimension để phân tách (ví dụ deviceCategory)
+     * @param locale Ngôn ngữ cho lần gửi này
      */
-    private formatPagesReport(data: any): string {
-        let result = '';
-
-        for (const item of data.data.slice(0, 5)) {
-            const pagePath = item.country.length > 30
-                ? item.country.substring(0, 27) + '...'
-                : item.country;
-            const views = parseInt(item.totalUsers);
-            const duration = (parseInt(item.newUsers) / 1000).toFixed(1);
+    async sendFunnelSummary(
+        title: string,
+        steps: FunnelStepDefinition[],
+        startDate: string = '7daysAgo',
+        endDate: string = 'yesterday',
+        breakdownDimension?: string,
+        locale?: string
+    ): Promise<boolean> {
+        const t = this.translator(locale);
+        try {
+            logger.info('Đang thu thập dữ liệu phễu chuyển đổi...');
+            const funnel = await this.ga4Service.getFunnelReport(steps, startDate, endDate, breakdownDimension);
 
-            result += `- ${pagePath}: ${views} lượt xem (${duration}s)\n`;
-        }
+            let message = `<b>🪜 ${escapeHtml(title)}</b>\n`;
+            message += `<i>${escapeHtml(`${t.t('common.service', { name: this.ga4Service.getName() })} · ${startDate} → ${endDate}`)}</i>\n\n`;
+            message += this.formatFunnelReport(funnel, t);
 
-        if (data.data.length > 5) {
-            result += `- <i>... và ${data.data.length - 5} trang khác</i>\n`;
+            logger.info('Đang gửi báo cáo phễu qua Telegram...');
+            return await this.telegramService.sendMessage(message, 'HTML');
+        } catch (error) {
+            logger.error('Lỗi khi thu thập và gửi dữ liệu phễu:', error);
+            await this.reportError(t.t('funnel.error', { message: escapeHtml(describeError(error, t)) }));
+            return false;
         }
-
-        return result;
     }
 
     /**
-     * Định dạng báo cáo chuyển đổi theo nguồn
+     * Định dạng báo cáo phễu
      */
-    private formatConversionsReport(data: any): string {
+    private formatFunnelReport(funnel: FunnelReportResult, t: Translator): string {
+        if (funnel.steps.length === 0) return `- ${t.t('common.noData')}\n`;
+
         let result = '';
 
-        for (const item of data.data.slice(0, 5)) {
-            const source = item.country.length > 25
-                ? item.country.substring(0, 22) + '...'
-                : item.country;
-            result += `- ${source}: ${item.totalUsers} chuyển đổi\n`;
-        }
+        funnel.steps.forEach((step, index) => {
+            const users = t.t('unit.users', { count: step.activeUsers });
+            result += `${step.step}. <b>${escapeHtml(step.name)}</b>: ${users} (${t.percent(step.conversionFromStart)})\n`;
+            if (index < funnel.steps.length - 1) {
+                result += `   ${t.t('funnel.stepDetail', {
+                    completionRate: t.percent(step.completionRate),
+                    abandonments: step.abandonments,
+                    abandonmentRate: t.percent(step.abandonmentRate)
+                })}\n`;
+            }
+        });
+
+        result += `<b>${t.t('funnel.completion', { rate: t.percent(funnel.overallCompletionRate) })}</b>\n`;
 
-        if (data.data.length > 5) {
-            result += `- <i>... và ${data.data.length - 5} nguồn khác</i>\n`;
+        const breakdownValues = Object.keys(funnel.breakdowns);
+        if (funnel.breakdownDimension && breakdownValues.length > 0) {
+            result += `\n<b>${t.t('funnel.breakdownTitle', { dimension: escapeHtml(funnel.breakdownDimension) })}</b>\n`;
+            for (const value of breakdownValues) {
+                const steps = funnel.breakdowns[value];
+                const completion = steps[steps.length - 1]?.conversionFromStart ?? 0;
+                const users = t.t('unit.users', { count: steps[0]?.activeUsers ?? 0 });
+                result += `- ${escapeHtml(value)}: ${t.t('funnel.breakdownRow', { users, rate: t.percent(completion) })}\n`;
+            }
         }
 
         return result;
     }
 
     /**
-     * Định dạng báo cáo so sánh lưu lượng
+     * Kiểm tra bất thường của một metric (so với cùng thứ các tuần trước) và gửi cảnh báo nếu có.
+     * Mức cảnh báo mặc định: giảm bất thường là 'critical', còn lại là 'warning'
+     * @param metric Metric cần theo dõi
+     * @param dimension Dimension để tìm nhóm gây ra thay đổi (ví dụ sessionDefaultChannelGroup)
+     * @param options Số tuần baseline, ngưỡng đánh giá, mức cảnh báo và ngôn ngữ
+     * @returns Kết quả phân tích (kể cả khi không có bất thường); undefined nếu không có dữ liệu hoặc lỗi
      */
-    private formatComparisonReport(data: any): string {
-        if (data.data.length < 2) return '- Không đủ dữ liệu để so sánh\n';
-
-        const today = parseInt(data.data[0].totalUsers);
-        const yesterday = parseInt(data.data[1].totalUsers);
+    async checkAnomalies(
+        metric: string = 'sessions',
+        dimension?: string,
+        options: AnomalyAlertOptions = {}
+    ): Promise<AnomalyReport | undefined> {
+        const t = this.translator(options.locale);
+        try {
+            logger.info(`Đang kiểm tra bất thường của ${metric}${dimension ? ` theo ${dimension}` : ''}...`);
+            const report = await this.ga4Service.detectAnomalies(metric, dimension, options.weeks, options);
+            if (!report || !hasAnomaly(report)) {
+                logger.info('Không phát hiện bất thường');
+                return report;
+            }
 
-        let change = 0;
-        let changeText = '';
+            const severity = options.severity ?? (report.overall.direction === 'drop' ? 'critical' : 'warning');
+            let message = formatAnomalyAlert(report, t);
+            message += `
+<i>${escapeHtml(t.t('common.service', { name: this.ga4Service.getName() }))}</i>`;
 
-        if (yesterday > 0) {
-            change = ((today - yesterday) / yesterday) * 100;
-            const changeSymbol = change >= 0 ? '▲' : '▼';
-            changeText = ` (${changeSymbol} ${Math.abs(change).toFixed(1)}%)`;
+            logger.info(`Đang gửi cảnh báo bất thường (${severity}) qua Telegram...`);
+            await this.sendAlert(message, severity);
+            return report;
+        } catch (error) {
+            logger.error('Lỗi khi kiểm tra bất thường:', error);
+            await this.reportError(t.t('anomaly.error', { message: escapeHtml(describeError(error, t)) }), 'warning');
+            return undefined;
         }
-
-        return `- Hôm nay: ${today} phiên\n- Hôm qua: ${yesterday} phiên${changeText}\n`;
     }
 
     /**
@@ -223,7 +707,7 @@ export class GAInsightsService {
             }
 
             // Gửi tin nhắn kiểm tra
-            await this.telegramService.sendMessage('✅ Kết nối GA Insights đã hoạt động!');
+            await this.telegramService.sendMessage(this.translator().t('connection.ok'), 'HTML');
             return true;
         } catch (error) {
             logger.error('Lỗi khi kiểm tra kết nối:', error);
@@ -231,15 +715,3 @@ export class GAInsightsService {
         }
     }
 }
-
-// Kiểm tra service nếu file được chạy trực tiếp
-if (require.main === module) {
-    const gaInsights = new GAInsightsService(process.env.GA4_PROPERTY_ID || '489280622', 'Apeoff.fun', '');
-    gaInsights.sendDailyGAInsights().then(result => {
-        console.log('Kết quả gửi báo cáo:', result ? 'thành công' : 'thất bại');
-        process.exit(0);
-    }).catch(err => {
-        console.error('Lỗi khi chạy service:', err);
-        process.exit(1);
-    });
-} 
\ No newline at end of file
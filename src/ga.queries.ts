@@ -0,0 +1,457 @@
+import { parseReport, withLegacyShape, LegacyFieldMapping } from "./utils/report-parser";
+import { andGroup, inListFilter, notExpression, stringFilter } from "./utils/filters";
+import { shiftGA4Date, toDateRangeDate } from "./utils/anomaly";
+import {
+    GA4DateRange,
+    GA4FilterExpression,
+    GA4OrderBy,
+    GA4RequestPayloadExtended,
+    GA4Response,
+    TypedReport,
+    TypedReportResult
+} from "./ga.types";
+
+/**
+ * Một truy vấn báo cáo có thể chạy riêng lẻ hoặc gộp vào batchRunReports:
+ * gồm request gửi tới GA4 và hàm chuyển response thành kết quả
+ */
+export interface ReportQuery<T> {
+    request: GA4RequestPayloadExtended;
+    transform: (response: GA4Response) => T;
+}
+
+// Kiểu kết quả của một ReportQuery
+export type ReportQueryResult<Q> = Q extends ReportQuery<infer T> ? T : never;
+
+interface QueryOptions {
+    dimensionFilter?: GA4FilterExpression;
+    metricFilter?: GA4FilterExpression;
+    orderBys?: GA4OrderBy[];
+    limit?: number;
+}
+
+const DEFAULT_QUERY_LIMIT = 50;
+// Lịch sử theo ngày × giá trị dimension có thể nhiều dòng
+const HISTORY_QUERY_LIMIT = 10000;
+
+/**
+ * Tạo request runReport (luôn yêu cầu dòng tổng)
+ */
+export function buildReportRequest(
+    dateRanges: GA4DateRange[],
+    dimensions: { name: string }[],
+    metrics: { name: string }[],
+    options: QueryOptions = {}
+): GA4RequestPayloadExtended {
+    const request: GA4RequestPayloadExtended = {
+        dateRanges,
+        dimensions,
+        metrics,
+        limit: options.limit ?? DEFAULT_QUERY_LIMIT,
+        metricAggregations: ['TOTAL']
+    };
+
+    if (options.dimensionFilter) request.dimensionFilter = options.dimensionFilter;
+    if (options.metricFilter) request.metricFilter = options.metricFilter;
+    if (options.orderBys) request.orderBys = options.orderBys;
+
+    return request;
+}
+
+/**
+ * Tạo truy vấn trả về báo cáo có kiểu kèm dạng cũ
+ */
+function typedQuery<D extends string, M extends string>(
+    dateRanges: GA4DateRange[],
+    dimensions: { name: D }[],
+    metrics: { name: M }[],
+    options: QueryOptions,
+    headers: string[],
+    mapping: LegacyFieldMapping,
+    emptyMessage: string
+): ReportQuery<TypedReportResult<D, M>> {
+    return {
+        request: buildReportRequest(dateRanges, dimensions, metrics, options),
+        transform: response => withLegacyShape(parseReport<D, M>(response), headers, mapping, emptyMessage)
+    };
+}
+
+/**
+ * Thêm điều kiện lọc dimension vào truy vấn có sẵn (AND với bộ lọc hiện tại)
+ */
+export function withDimensionFilter<T>(query: ReportQuery<T>, filter: GA4FilterExpression): ReportQuery<T> {
+    const current = query.request.dimensionFilter;
+    return {
+        ...query,
+        request: { ...query.request, dimensionFilter: current ? andGroup(current, filter) : filter }
+    };
+}
+
+/**
+ * Lấy một trang kết quả của truy vấn (page bắt đầu từ 0)
+ */
+export function withPage<T>(query: ReportQuery<T>, page: number, pageSize: number): ReportQuery<T> {
+    return {
+        ...query,
+        request: { ...query.request, limit: pageSize, offset: page * pageSize }
+    };
+}
+
+const orderByMetricDesc = (metricName: string): GA4OrderBy[] => [{ metric: { metricName }, desc: true }];
+
+/**
+ * Người dùng theo quốc gia (mặc định ngày hôm qua)
+ */
+export function usersByCountryQuery(startDate: string = 'yesterday', endDate: string = 'yesterday'): ReportQuery<TypedReportResult<'country', 'totalUsers' | 'newUsers' | 'sessions'>> {
+    const metrics: { name: 'totalUsers' | 'newUsers' | 'sessions' }[] = [
+        { name: 'totalUsers' },
+        { name: 'newUsers' },
+        { name: 'sessions' }
+    ];
+
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'country' }],
+        metrics,
+        { orderBys: orderByMetricDesc('totalUsers'), limit: 10 },
+        ['Country', 'Total Users', 'New Users', 'Sessions'],
+        { country: 'country', totalUsers: 'totalUsers', newUsers: 'newUsers', sessions: 'sessions' },
+        'No data available'
+    );
+}
+
+// ==== NHÓM 1: CHUYỂN ĐỔI (CONVERSIONS) ====
+
+/**
+ * Top sự kiện chuyển đổi
+ */
+export function topConversionEventsQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'eventName', 'conversions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'eventName' }],
+        [{ name: 'conversions' }],
+        { orderBys: orderByMetricDesc('conversions'), limit },
+        ['Event Name', 'Conversions'],
+        { country: 'eventName', totalUsers: 'conversions' },
+        'No conversion events data available'
+    );
+}
+
+/**
+ * Chuyển đổi theo nguồn lưu lượng
+ */
+export function conversionsBySourceMediumQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'sourceMedium', 'conversions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'sourceMedium' }],
+        [{ name: 'conversions' }],
+        { orderBys: orderByMetricDesc('conversions'), limit },
+        ['Source/Medium', 'Conversions'],
+        { country: 'sourceMedium', totalUsers: 'conversions' },
+        'No source/medium conversion data available'
+    );
+}
+
+/**
+ * Chuyển đổi theo loại thiết bị
+ */
+export function conversionsByDeviceQuery(startDate: string = 'yesterday', endDate: string = 'yesterday'): ReportQuery<TypedReportResult<'deviceCategory', 'conversions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'deviceCategory' }],
+        [{ name: 'conversions' }],
+        { orderBys: orderByMetricDesc('conversions') },
+        ['Device Category', 'Conversions'],
+        { country: 'deviceCategory', totalUsers: 'conversions' },
+        'No device conversion data available'
+    );
+}
+
+// ==== NHÓM 2: HÀNH VI NGƯỜI DÙNG (USER BEHAVIOR) ====
+
+/**
+ * Trang phổ biến và thời gian tương tác
+ */
+export function popularPagesWithEngagementQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'pagePath', 'screenPageViews' | 'userEngagementDuration'>> {
+    const metrics: { name: 'screenPageViews' | 'userEngagementDuration' }[] = [
+        { name: 'screenPageViews' },
+        { name: 'userEngagementDuration' }
+    ];
+
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'pagePath' }],
+        metrics,
+        { orderBys: orderByMetricDesc('screenPageViews'), limit },
+        ['Page Path', 'Page Views', 'Engagement Duration (s)'],
+        { country: 'pagePath', totalUsers: 'screenPageViews', newUsers: 'userEngagementDuration' },
+        'No page engagement data available'
+    );
+}
+
+/**
+ * Hành trình di chuyển của người dùng giữa các trang
+ */
+export function userJourneyPathsQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'pageReferrer' | 'pagePath', 'screenPageViews'>> {
+    const dimensions: { name: 'pageReferrer' | 'pagePath' }[] = [
+        { name: 'pageReferrer' },
+        { name: 'pagePath' }
+    ];
+
+    return typedQuery(
+        [{ startDate, endDate }],
+        dimensions,
+        [{ name: 'screenPageViews' }],
+        { orderBys: orderByMetricDesc('screenPageViews'), limit },
+        ['From Page', 'To Page', 'Page Views'],
+        { country: 'pageReferrer', totalUsers: 'pagePath', newUsers: 'screenPageViews' },
+        'No user journey data available'
+    );
+}
+
+/**
+ * Các sự kiện tương tác hàng đầu (loại trừ page_view)
+ */
+export function topInteractionEventsQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'eventName', 'eventCount'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'eventName' }],
+        [{ name: 'eventCount' }],
+        {
+            dimensionFilter: notExpression(stringFilter('eventName', 'page_view', 'EXACT')),
+            orderBys: orderByMetricDesc('eventCount'),
+            limit
+        },
+        ['Event Name', 'Event Count'],
+        { country: 'eventName', totalUsers: 'eventCount' },
+        'No interaction events data available'
+    );
+}
+
+// ==== NHÓM 3: THIẾT BỊ & KÊNH TRUY CẬP (DEVICE AND TRAFFIC CHANNELS) ====
+
+/**
+ * Phiên truy cập theo loại thiết bị
+ */
+export function sessionsByDeviceCategoryQuery(startDate: string = 'yesterday', endDate: string = 'yesterday'): ReportQuery<TypedReportResult<'deviceCategory', 'sessions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'deviceCategory' }],
+        [{ name: 'sessions' }],
+        { orderBys: orderByMetricDesc('sessions') },
+        ['Device Category', 'Sessions'],
+        { country: 'deviceCategory', totalUsers: 'sessions' },
+        'No device session data available'
+    );
+}
+
+/**
+ * Phiên theo nhóm kênh mặc định
+ */
+export function sessionsByDefaultChannelGroupQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'sessionDefaultChannelGroup', 'sessions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'sessionDefaultChannelGroup' }],
+        [{ name: 'sessions' }],
+        { orderBys: orderByMetricDesc('sessions'), limit },
+        ['Default Channel Group', 'Sessions'],
+        { country: 'sessionDefaultChannelGroup', totalUsers: 'sessions' },
+        'No channel group data available'
+    );
+}
+
+/**
+ * So sánh lưu lượng organic vs paid
+ */
+export function organicVsPaidQuery(startDate: string = 'yesterday', endDate: string = 'yesterday'): ReportQuery<TypedReportResult<'sessionMedium', 'sessions'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'sessionMedium' }],
+        [{ name: 'sessions' }],
+        { dimensionFilter: inListFilter('sessionMedium', ['organic', 'cpc']) },
+        ['Medium', 'Sessions'],
+        { country: 'sessionMedium', totalUsers: 'sessions' },
+        'No organic vs paid data available'
+    );
+}
+
+// ==== NHÓM 4: ĐỊA LÝ & NHÂN KHẨU HỌC (GEOGRAPHY AND DEMOGRAPHICS) ====
+
+/**
+ * Người dùng theo thành phố
+ */
+export function usersByCityQuery(startDate: string = 'yesterday', endDate: string = 'yesterday', limit: number = 10): ReportQuery<TypedReportResult<'city', 'activeUsers'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'city' }],
+        [{ name: 'activeUsers' }],
+        { orderBys: orderByMetricDesc('activeUsers'), limit },
+        ['City', 'Active Users'],
+        { country: 'city', totalUsers: 'activeUsers' },
+        'No city data available'
+    );
+}
+
+/**
+ * Người dùng theo nhóm tuổi (nếu có Google Signals)
+ */
+export function usersByAgeBracketQuery(startDate: string = 'yesterday', endDate: string = 'yesterday'): ReportQuery<TypedReportResult<'userAgeBracket', 'activeUsers'>> {
+    return typedQuery(
+        [{ startDate, endDate }],
+        [{ name: 'userAgeBracket' }],
+        [{ name: 'activeUsers' }],
+        { orderBys: orderByMetricDesc('activeUsers') },
+        ['Age Bracket', 'Active Users'],
+        { country: 'userAgeBracket', totalUsers: 'activeUsers' },
+        'No age bracket data available'
+    );
+}
+
+// ==== NHÓM 5: SO SÁNH THEO THỜI GIAN (TIME-BASED COMPARISON) ====
+
+/**
+ * So sánh hôm nay và hôm qua
+ * Khi có nhiều khoảng thời gian, GA4 trả thêm dimension `dateRange` chứa tên khoảng
+ */
+export function todayVsYesterdayQuery(metric: string = 'sessions'): ReportQuery<TypedReportResult<'dateRange', string>> {
+    const dateRanges = [
+        { startDate: 'today', endDate: 'today', name: 'today' },
+        { startDate: 'yesterday', endDate: 'yesterday', name: 'yesterday' }
+    ];
+
+    return {
+        request: buildReportRequest(dateRanges, [], [{ name: metric }]),
+        transform: response => {
+            const report = parseReport<'dateRange', string>(response);
+
+            const valueFor = (rangeName: string) =>
+                String(report.rows.find(row => row.dateRange === rangeName)?.[metric] ?? 0);
+
+            return {
+                ...report,
+                headers: ['Period', metric],
+                data: [
+                    { country: 'Today', totalUsers: valueFor('today'), newUsers: '0', sessions: '0' },
+                    { country: 'Yesterday', totalUsers: valueFor('yesterday'), newUsers: '0', sessions: '0' }
+                ]
+            };
+        }
+    };
+}
+
+/**
+ * So sánh tuần này và tuần trước theo một dimension
+ */
+export function thisWeekVsLastWeekQuery(dimension: string = 'sessionDefaultChannelGroup', metric: string = 'sessions'): ReportQuery<TypedReportResult<string, string>> {
+    const dateRanges = [
+        { startDate: '14daysAgo', endDate: '8daysAgo', name: 'lastWeek' },
+        { startDate: '7daysAgo', endDate: 'yesterday', name: 'thisWeek' }
+    ];
+
+    return {
+        request: buildReportRequest(dateRanges, [{ name: dimension }], [{ name: metric }], { orderBys: orderByMetricDesc(metric) }),
+        transform: response => {
+            const report = parseReport<string, string>(response);
+
+            // Gộp hai dòng (tuần trước/tuần này) của cùng một giá trị dimension thành một dòng dạng cũ
+            const grouped = new Map<string, { lastWeek: number; thisWeek: number }>();
+            for (const row of report.rows) {
+                const key = String(row[dimension] || 'Unknown');
+                const entry = grouped.get(key) || { lastWeek: 0, thisWeek: 0 };
+                if (row.dateRange === 'lastWeek') entry.lastWeek = Number(row[metric]);
+                if (row.dateRange === 'thisWeek') entry.thisWeek = Number(row[metric]);
+                grouped.set(key, entry);
+            }
+
+            const result: TypedReportResult<string, string> = {
+                ...report,
+                headers: [dimension, 'Last Week', 'This Week'],
+                data: Array.from(grouped.entries()).map(([key, values]) => ({
+                    country: key,
+                    totalUsers: String(values.lastWeek), // Last week
+                    newUsers: String(values.thisWeek),   // This week
+                    sessions: '0'
+                }))
+            };
+
+            if (report.rows.length === 0) {
+                result.message = 'No comparison data available';
+            }
+
+            return result;
+        }
+    };
+}
+
+/**
+ * Giá trị một metric theo từng ngày trong N ngày gần nhất (không gồm hôm nay), sắp xếp theo ngày
+ */
+export function dailyTrendQuery(metric: string = 'sessions', days: number = 30): ReportQuery<TypedReportResult<'date', string>> {
+    return typedQuery(
+        [{ startDate: `${days}daysAgo`, endDate: 'yesterday' }],
+        [{ name: 'date' }],
+        [{ name: metric }],
+        { orderBys: [{ dimension: { dimensionName: 'date' } }], limit: days },
+        ['Date', metric],
+        { country: 'date', totalUsers: metric },
+        'No daily trend data available'
+    );
+}
+
+/**
+ * Lịch sử theo ngày của một metric đủ để so sánh hôm qua với cùng thứ trong N tuần trước
+ * (tổng thể, hoặc theo từng giá trị dimension khi truyền `dimension`)
+ * @param date Ngày được kiểm tra (YYYYMMDD); mặc định hôm qua theo múi giờ của property
+ */
+export function sameWeekdayHistoryQuery(
+    metric: string = 'sessions',
+    dimension?: string,
+    weeks: number = 4,
+    date?: string
+): ReportQuery<TypedReport<string, string>> {
+    const dimensions = dimension ? [{ name: 'date' }, { name: dimension }] : [{ name: 'date' }];
+    const dateRange = date
+        ? { startDate: toDateRangeDate(shiftGA4Date(date, -7 * weeks)), endDate: toDateRangeDate(date) }
+        : { startDate: `${weeks * 7 + 1}daysAgo`, endDate: 'yesterday' };
+
+    return {
+        request: buildReportRequest(
+            [dateRange],
+            dimensions,
+            [{ name: metric }],
+            { orderBys: [{ dimension: { dimensionName: 'date' } }], limit: HISTORY_QUERY_LIMIT }
+        ),
+        transform: response => parseReport<string, string>(response)
+    };
+}
+
+// Tổng của các metric trong kỳ hiện tại và kỳ trước
+export interface PeriodOverPeriodTotals {
+    current: Record<string, number>;
+    previous: Record<string, number>;
+}
+
+/**
+ * Tổng các metric của hôm qua và hôm kia (so sánh ngày liền trước), không chia theo dimension
+ */
+export function dayOverDayTotalsQuery(metrics: string[] = ['sessions', 'totalUsers', 'conversions']): ReportQuery<PeriodOverPeriodTotals> {
+    const dateRanges = [
+        { startDate: 'yesterday', endDate: 'yesterday', name: 'current' },
+        { startDate: '2daysAgo', endDate: '2daysAgo', name: 'previous' }
+    ];
+
+    return {
+        request: buildReportRequest(dateRanges, [], metrics.map(name => ({ name }))),
+        transform: response => {
+            const report = parseReport<'dateRange', string>(response);
+
+            // Kỳ không có dữ liệu không có dòng nào, coi như bằng 0
+            const totalsFor = (rangeName: string) => {
+                const row = report.rows.find(item => item.dateRange === rangeName);
+                return Object.fromEntries(metrics.map(metric => [metric, Number(row?.[metric] ?? 0)]));
+            };
+
+            return { current: totalsFor('current'), previous: totalsFor('previous') };
+        }
+    };
+}
@@ -0,0 +1,130 @@
+import axios, { AxiosError, AxiosResponse } from "axios";
+import { GA4Service } from "./ga.service";
+import { GA4AuthError, GA4InvalidRequestError } from "./errors";
+import { TokenCache } from "./utils/token-cache";
+
+describe('GA4Service getDetailedReport', () => {
+    const service = new GA4Service('123', 'Test');
+    const internals = service as unknown as { getAccessToken: () => Promise<string> };
+    const dateRanges = [{ startDate: '7daysAgo', endDate: 'today' }];
+
+    beforeEach(() => {
+        jest.spyOn(internals, 'getAccessToken').mockResolvedValue('token');
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('chỉ yêu cầu dòng tổng khi bật includeTotals', async () => {
+        const post = jest.spyOn(axios, 'post').mockResolvedValue({ status: 200, data: { dimensionHeaders: [], metricHeaders: [], rows: [] } });
+
+        await service.getDetailedReport(dateRanges, [{ name: 'pagePath' }], [{ name: 'sessions' }]);
+        await service.getDetailedReport(dateRanges, [{ name: 'pagePath' }], [{ name: 'sessions' }], undefined, undefined, 50, true);
+
+        expect(post.mock.calls[0][1]).not.toHaveProperty('metricAggregations');
+        expect(post.mock.calls[1][1]).toHaveProperty('metricAggregations', ['TOTAL']);
+    });
+});
+
+describe('GA4Service realtime', () => {
+    const service = new GA4Service('123', 'Test');
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it.each([0, 31, 2.5, NaN])('từ chối minutes = %p trước khi gọi API', async minutes => {
+        const runRealtimeReport = jest.spyOn(service, 'runRealtimeReport');
+
+        for (const request of [
+            () => service.getRealtimeActiveUsersByPage(minutes),
+            () => service.getRealtimeActiveUsersByCountry(minutes),
+            () => service.getRealtimeActiveUsersByDevice(minutes),
+            () => service.getRealtimeActiveUsersByMinute(minutes)
+        ]) {
+            await expect(request()).rejects.toThrow(GA4InvalidRequestError);
+        }
+        expect(runRealtimeReport).not.toHaveBeenCalled();
+    });
+
+    it('dùng khoảng phút gần nhất khi minutes hợp lệ', async () => {
+        const runRealtimeReport = jest.spyOn(service, 'runRealtimeReport').mockResolvedValue({ dimensionHeaders: [], metricHeaders: [], rows: [] });
+
+        await service.getRealtimeActiveUsersByDevice(5);
+
+        expect(runRealtimeReport.mock.calls[0][2]).toEqual([{ startMinutesAgo: 4, endMinutesAgo: 0 }]);
+    });
+});
+
+
+describe('GA4Service access token', () => {
+    const service = new GA4Service('123', 'Test', undefined, false, undefined, { tokenCache: new TokenCache() });
+    const internals = service as unknown as {
+        loadServiceAccountKey: () => unknown;
+        fetchAccessToken: () => Promise<{ accessToken: string; expiresIn: number }>;
+    };
+    const dateRanges = [{ startDate: '7daysAgo', endDate: 'today' }];
+    const unauthorized = () => new AxiosError('Request failed with status code 401', 'ERR_BAD_REQUEST', undefined, undefined, {
+        status: 401,
+        data: { error: { code: 401, status: 'UNAUTHENTICATED', message: 'Request had invalid authentication credentials.' } }
+    } as AxiosResponse);
+    let fetchAccessToken: jest.SpyInstance;
+
+    beforeEach(() => {
+        jest.spyOn(internals, 'loadServiceAccountKey').mockReturnValue({ client_email: 'ga4@test.iam.gserviceaccount.com', private_key_id: 'key' });
+        fetchAccessToken = jest.spyOn(internals, 'fetchAccessToken')
+            .mockResolvedValueOnce({ accessToken: 'revoked', expiresIn: 3600 })
+            .mockResolvedValueOnce({ accessToken: 'fresh', expiresIn: 3600 });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('bỏ token trong cache và thử lại với token mới khi API trả về 401', async () => {
+        const post = jest.spyOn(axios, 'post')
+            .mockRejectedValueOnce(unauthorized())
+            .mockResolvedValue({ status: 200, data: { dimensionHeaders: [], metricHeaders: [], rows: [] } });
+
+        await service.getDetailedReport(dateRanges, [{ name: 'pagePath' }], [{ name: 'sessions' }]);
+
+        expect(fetchAccessToken).toHaveBeenCalledTimes(2);
+        expect(post).toHaveBeenCalledTimes(2);
+        expect(post.mock.calls[1][2]?.headers).toHaveProperty('Authorization', 'Bearer fresh');
+    });
+
+    it('chỉ thử lại một lần', async () => {
+        const post = jest.spyOn(axios, 'post').mockRejectedValue(unauthorized());
+
+        await expect(service.getDetailedReport(dateRanges, [{ name: 'pagePath' }], [{ name: 'sessions' }]))
+            .rejects.toBeInstanceOf(GA4AuthError);
+        expect(post).toHaveBeenCalledTimes(2);
+    });
+});
+
+describe('GA4Service validateReportRequest', () => {
+    const service = new GA4Service('123', 'Test');
+
+    beforeEach(() => {
+        jest.spyOn(service, 'getMetadata').mockResolvedValue({
+            dimensions: [{ apiName: 'country' }],
+            metrics: [{ apiName: 'sessions' }]
+        });
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('ném GA4InvalidRequestError kèm đúng tên các field bị lỗi', async () => {
+        const error = await service.validateReportRequest({
+            dimensions: [{ name: 'country' }, { name: 'sessions' }],
+            metrics: [{ name: 'sesions' }],
+            dimensionFilter: { filter: { fieldName: 'customEvent:tier "gold"', stringFilter: { value: 'x' } } }
+        }, false).catch(caught => caught);
+
+        expect(error).toBeInstanceOf(GA4InvalidRequestError);
+        expect((error as GA4InvalidRequestError).fields).toEqual(['sessions', 'sesions', 'customEvent:tier "gold"']);
+    });
+});
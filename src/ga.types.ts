@@ -0,0 +1,431 @@
+// Interfaces để định nghĩa cấu trúc dữ liệu GA4
+export interface GA4DateRange {
+    startDate: string;
+    endDate: string;
+    // Tên khoảng thời gian, được trả về trong dimension `dateRange` khi có nhiều khoảng
+    name?: string;
+}
+
+export interface GA4Dimension {
+    name: string;
+}
+
+export interface GA4Metric {
+    name: string;
+}
+
+export interface GA4RequestPayload {
+    dateRanges: GA4DateRange[];
+    dimensions: GA4Dimension[];
+    metrics: GA4Metric[];
+    limit?: number;
+    offset?: number;
+    // Yêu cầu GA4 trả về trạng thái quota của property trong response
+    returnPropertyQuota?: boolean;
+}
+
+export interface GA4DimensionValue {
+    value: string;
+}
+
+export interface GA4MetricValue {
+    value: string;
+}
+
+export interface GA4Row {
+    dimensionValues: GA4DimensionValue[];
+    metricValues: GA4MetricValue[];
+}
+
+// Kiểu dữ liệu của metric theo GA4 Data API
+export type GA4MetricType =
+    | 'METRIC_TYPE_UNSPECIFIED'
+    | 'TYPE_INTEGER'
+    | 'TYPE_FLOAT'
+    | 'TYPE_SECONDS'
+    | 'TYPE_MILLISECONDS'
+    | 'TYPE_MINUTES'
+    | 'TYPE_HOURS'
+    | 'TYPE_STANDARD'
+    | 'TYPE_CURRENCY'
+    | 'TYPE_FEET'
+    | 'TYPE_MILES'
+    | 'TYPE_METERS'
+    | 'TYPE_KILOMETERS';
+
+export interface GA4MetricHeader {
+    name: string;
+    type?: GA4MetricType;
+}
+
+// Trạng thái một loại quota: đã dùng trong request này và còn lại
+export interface GA4QuotaStatus {
+    consumed?: number;
+    remaining?: number;
+}
+
+// Quota của property (chỉ có khi request đặt returnPropertyQuota)
+export interface GA4PropertyQuota {
+    tokensPerDay?: GA4QuotaStatus;
+    tokensPerHour?: GA4QuotaStatus;
+    concurrentRequests?: GA4QuotaStatus;
+    serverErrorsPerProjectPerHour?: GA4QuotaStatus;
+    potentiallyThresholdedRequestsPerHour?: GA4QuotaStatus;
+    tokensPerProjectPerHour?: GA4QuotaStatus;
+}
+
+export interface GA4Response {
+    rows?: GA4Row[];
+    dimensionHeaders: { name: string }[];
+    metricHeaders: GA4MetricHeader[];
+    totals?: GA4Row[];
+    rowCount?: number;
+    propertyQuota?: GA4PropertyQuota;
+}
+
+// Nội dung `error` trong response lỗi của Google API (Data API, Admin API)
+export interface GoogleApiErrorBody {
+    code?: number;
+    message?: string;
+    // Trạng thái lỗi, ví dụ PERMISSION_DENIED, INVALID_ARGUMENT
+    status?: string;
+    details?: {
+        '@type'?: string;
+        // Chỉ có với lỗi BadRequest: field nào của request bị lỗi
+        fieldViolations?: { field?: string; description?: string }[];
+    }[];
+}
+
+export interface CountryUserReport {
+    country: string;
+    totalUsers: string;
+    newUsers: string;
+    sessions: string;
+}
+
+export interface ReportResult {
+    headers: string[];
+    data: CountryUserReport[];
+    message?: string;
+}
+
+// Bổ sung interface mới cho orderBy và filter
+export interface GA4OrderBy {
+    metric?: { metricName: string };
+    dimension?: { dimensionName: string };
+    desc?: boolean;
+}
+
+// Chỉ cho phép đúng một trong các key của T
+type OneOf<T> = {
+    [K in keyof T]: Required<Pick<T, K>> & { [P in Exclude<keyof T, K>]?: never };
+}[keyof T];
+
+export type GA4StringMatchType =
+    | 'EXACT'
+    | 'BEGINS_WITH'
+    | 'ENDS_WITH'
+    | 'CONTAINS'
+    | 'FULL_REGEXP'
+    | 'PARTIAL_REGEXP';
+
+export interface GA4StringFilter {
+    matchType?: GA4StringMatchType;
+    value: string;
+    caseSensitive?: boolean;
+}
+
+export interface GA4InListFilter {
+    values: string[];
+    caseSensitive?: boolean;
+}
+
+// Giá trị số: dùng int64Value (chuỗi) hoặc doubleValue, không dùng cả hai
+export type GA4NumericValue = OneOf<{ int64Value: string; doubleValue: number }>;
+
+export type GA4NumericOperation =
+    | 'EQUAL'
+    | 'LESS_THAN'
+    | 'LESS_THAN_OR_EQUAL'
+    | 'GREATER_THAN'
+    | 'GREATER_THAN_OR_EQUAL';
+
+export interface GA4NumericFilter {
+    operation: GA4NumericOperation;
+    value: GA4NumericValue;
+}
+
+export interface GA4BetweenFilter {
+    fromValue: GA4NumericValue;
+    toValue: GA4NumericValue;
+}
+
+// emptyFilter không có tham số
+export type GA4EmptyFilter = Record<string, never>;
+
+// Bộ lọc trên một field, chỉ được dùng đúng một loại bộ lọc
+export type GA4FieldFilter = {
+    fieldName: string;
+    /** @deprecated Dùng notExpression; vẫn được hỗ trợ và tự chuyển đổi trước khi gửi */
+    not?: boolean;
+} & OneOf<{
+    stringFilter: GA4StringFilter;
+    inListFilter: GA4InListFilter;
+    numericFilter: GA4NumericFilter;
+    betweenFilter: GA4BetweenFilter;
+    emptyFilter: GA4EmptyFilter;
+}>;
+
+export interface GA4FilterExpressionList {
+    expressions: GA4FilterExpression[];
+}
+
+// FilterExpression đầy đủ của GA4: nhóm and/or, phủ định hoặc một bộ lọc field
+export type GA4FilterExpression = OneOf<{
+    andGroup: GA4FilterExpressionList;
+    orGroup: GA4FilterExpressionList;
+    notExpression: GA4FilterExpression;
+    filter: GA4FieldFilter;
+}>;
+
+// Giữ tên cũ để tương thích ngược
+export type GA4DimensionFilter = GA4FieldFilter;
+export type GA4Filter = GA4FilterExpression;
+
+export interface GA4RequestPayloadExtended extends GA4RequestPayload {
+    orderBys?: GA4OrderBy[];
+    dimensionFilter?: GA4FilterExpression;
+    metricFilter?: GA4FilterExpression;
+    metricAggregations?: ('TOTAL' | 'MINIMUM' | 'MAXIMUM' | 'COUNT')[];
+}
+
+// ==== BÁO CÁO THỜI GIAN THỰC (REALTIME) ====
+
+// Khoảng phút tính từ hiện tại, tối đa 29 phút (hoặc 59 phút với GA4 360)
+export interface GA4MinuteRange {
+    name?: string;
+    startMinutesAgo?: number;
+    endMinutesAgo?: number;
+}
+
+export interface GA4RealtimeRequestPayload {
+    dimensions: GA4Dimension[];
+    metrics: GA4Metric[];
+    minuteRanges?: GA4MinuteRange[];
+    dimensionFilter?: GA4FilterExpression;
+    metricFilter?: GA4FilterExpression;
+    orderBys?: GA4OrderBy[];
+    metricAggregations?: ('TOTAL' | 'MINIMUM' | 'MAXIMUM' | 'COUNT')[];
+    limit?: number;
+    // Quota realtime tính riêng với quota của báo cáo thường
+    returnPropertyQuota?: boolean;
+}
+
+// ==== BÁO CÁO PIVOT ====
+
+export interface GA4Pivot {
+    // Các dimension tạo nên pivot này (phải có trong danh sách dimensions của request)
+    fieldNames: string[];
+    orderBys?: GA4OrderBy[];
+    offset?: number;
+    // Số giá trị tối đa của pivot
+    limit: number;
+    metricAggregations?: ('TOTAL' | 'MINIMUM' | 'MAXIMUM' | 'COUNT')[];
+}
+
+export interface GA4PivotRequestPayload {
+    dateRanges: GA4DateRange[];
+    dimensions: GA4Dimension[];
+    metrics: GA4Metric[];
+    pivots: GA4Pivot[];
+    dimensionFilter?: GA4FilterExpression;
+    metricFilter?: GA4FilterExpression;
+    keepEmptyRows?: boolean;
+    returnPropertyQuota?: boolean;
+}
+
+export interface GA4PivotHeader {
+    pivotDimensionHeaders: { dimensionValues: GA4DimensionValue[] }[];
+    rowCount: number;
+}
+
+export interface GA4PivotResponse {
+    pivotHeaders: GA4PivotHeader[];
+    dimensionHeaders: { name: string }[];
+    metricHeaders: GA4MetricHeader[];
+    rows?: GA4Row[];
+    aggregates?: GA4Row[];
+    propertyQuota?: GA4PropertyQuota;
+}
+
+// Ma trận hai chiều dựng từ báo cáo pivot: dòng = pivot đầu tiên, cột = các pivot còn lại
+export interface PivotMatrix {
+    rowDimensions: string[];
+    columnDimensions: string[];
+    metric: string;
+    rowLabels: string[];
+    columnLabels: string[];
+    // values[rowIndex][columnIndex]
+    values: number[][];
+}
+
+// ==== BÁO CÁO PHỄU (FUNNEL, GA4 Data API v1alpha) ====
+
+export interface GA4FunnelFieldFilter {
+    fieldName: string;
+    stringFilter?: GA4StringFilter;
+    inListFilter?: GA4InListFilter;
+    numericFilter?: GA4NumericFilter;
+    betweenFilter?: GA4BetweenFilter;
+}
+
+export interface GA4FunnelEventFilter {
+    eventName: string;
+}
+
+export type GA4FunnelFilterExpression = OneOf<{
+    andGroup: { expressions: GA4FunnelFilterExpression[] };
+    orGroup: { expressions: GA4FunnelFilterExpression[] };
+    notExpression: GA4FunnelFilterExpression;
+    funnelFieldFilter: GA4FunnelFieldFilter;
+    funnelEventFilter: GA4FunnelEventFilter;
+}>;
+
+export interface GA4FunnelStep {
+    name: string;
+    isDirectlyFollowedBy?: boolean;
+    // Thời gian tối đa kể từ bước trước, ví dụ "3600s"
+    withinDurationFromPriorStep?: string;
+    filterExpression: GA4FunnelFilterExpression;
+}
+
+export interface GA4Funnel {
+    isOpenFunnel?: boolean;
+    steps: GA4FunnelStep[];
+}
+
+export interface GA4FunnelRequestPayload {
+    dateRanges: GA4DateRange[];
+    funnel: GA4Funnel;
+    funnelBreakdown?: { breakdownDimension: GA4Dimension; limit?: number };
+    dimensionFilter?: GA4FilterExpression;
+    funnelVisualizationType?: 'STANDARD_FUNNEL' | 'TRENDED_FUNNEL';
+    limit?: number;
+    returnPropertyQuota?: boolean;
+}
+
+export interface GA4FunnelResponse {
+    funnelTable: GA4Response;
+    funnelVisualization?: GA4Response;
+    propertyQuota?: GA4PropertyQuota;
+}
+
+// Định nghĩa bước phễu đơn giản: theo tên sự kiện hoặc theo đường dẫn trang
+export type FunnelStepDefinition = {
+    name: string;
+    isDirectlyFollowedBy?: boolean;
+    withinDurationFromPriorStep?: string;
+} & (
+    | { eventName: string; pagePath?: never; matchType?: never }
+    | { pagePath: string; matchType?: GA4StringMatchType; eventName?: never }
+);
+
+export interface FunnelStepResult {
+    // Thứ tự bước, bắt đầu từ 1
+    step: number;
+    name: string;
+    activeUsers: number;
+    // Tỷ lệ (0-1) người dùng đi tiếp sang bước sau
+    completionRate: number;
+    abandonments: number;
+    // Tỷ lệ (0-1) người dùng rời phễu ở bước này
+    abandonmentRate: number;
+    // Tỷ lệ (0-1) so với số người dùng ở bước đầu tiên
+    conversionFromStart: number;
+}
+
+export interface FunnelReportResult {
+    steps: FunnelStepResult[];
+    breakdownDimension?: string;
+    // Kết quả theo từng giá trị của breakdownDimension
+    breakdowns: Record<string, FunnelStepResult[]>;
+    // Tỷ lệ (0-1) hoàn thành toàn bộ phễu
+    overallCompletionRate: number;
+}
+
+// ==== METADATA & TƯƠNG THÍCH (COMPATIBILITY) ====
+
+export interface GA4DimensionMetadata {
+    apiName: string;
+    uiName?: string;
+    description?: string;
+    deprecatedApiNames?: string[];
+    customDefinition?: boolean;
+    category?: string;
+}
+
+export interface GA4MetricMetadata {
+    apiName: string;
+    uiName?: string;
+    description?: string;
+    deprecatedApiNames?: string[];
+    type?: GA4MetricType;
+    expression?: string;
+    customDefinition?: boolean;
+    category?: string;
+}
+
+export interface GA4Metadata {
+    name?: string;
+    dimensions: GA4DimensionMetadata[];
+    metrics: GA4MetricMetadata[];
+}
+
+export type GA4Compatibility = 'COMPATIBILITY_UNSPECIFIED' | 'COMPATIBLE' | 'INCOMPATIBLE';
+
+export interface GA4CompatibilityResponse {
+    dimensionCompatibilities?: { dimensionMetadata: GA4DimensionMetadata; compatibility: GA4Compatibility }[];
+    metricCompatibilities?: { metricMetadata: GA4MetricMetadata; compatibility: GA4Compatibility }[];
+}
+
+// Request báo cáo không gồm limit/offset, dùng khi phân trang
+export type GA4ReportRequest = Omit<GA4RequestPayloadExtended, 'limit' | 'offset'>;
+
+export interface ReportPaginationOptions {
+    // Lấy toàn bộ các trang thay vì chỉ trang đầu tiên
+    fetchAll?: boolean;
+    // Số dòng mỗi trang (mặc định 10000)
+    pageSize?: number;
+    // Giới hạn an toàn số dòng tối đa (mặc định 100000)
+    maxRows?: number;
+}
+
+// ==== BÁO CÁO CÓ KIỂU (TYPED REPORTS) ====
+
+// Một dòng báo cáo: dimension là chuỗi, metric là số đã được parse theo metricHeaders
+// Khi tên dimension/metric không được biết lúc biên dịch, dòng là một Record thông thường
+export type TypedReportRow<D extends string = string, M extends string = string> =
+    string extends D | M
+        ? Record<string, string | number>
+        : { [K in D]: string } & { [K in M]: number };
+
+export interface TypedMetricHeader<M extends string = string> {
+    name: M;
+    type: GA4MetricType;
+}
+
+export interface TypedReport<D extends string = string, M extends string = string> {
+    dimensionHeaders: D[];
+    metricHeaders: TypedMetricHeader<M>[];
+    rows: TypedReportRow<D, M>[];
+    // Dòng tổng (mỗi khoảng thời gian một dòng), giá trị dimension là RESERVED_TOTAL
+    totals: TypedReportRow<D, M>[];
+    // Tổng số dòng phía GA4, có thể lớn hơn rows.length khi bị giới hạn bởi limit
+    rowCount: number;
+    // Quota của property sau request (khi bật returnPropertyQuota)
+    propertyQuota?: GA4PropertyQuota;
+}
+
+// Kết quả báo cáo có kiểu, kèm dạng cũ (headers/data) để tương thích ngược
+export interface TypedReportResult<D extends string = string, M extends string = string>
+    extends TypedReport<D, M>, ReportResult {}
@@ -0,0 +1,137 @@
+import type { TranslationCatalog } from "./index";
+
+export const en: TranslationCatalog = {
+    intlLocale: 'en-US',
+    messages: {
+        // Common
+        'common.noData': 'No data',
+        'common.total': 'Total: {value}',
+        'common.service': 'Service: {name}',
+        'unit.users': { one: '{count} user', other: '{count} users' },
+        'unit.sessions': { one: '{count} session', other: '{count} sessions' },
+        'unit.views': { one: '{count} view', other: '{count} views' },
+        'unit.conversions': { one: '{count} conversion', other: '{count} conversions' },
+        'more.countries': { one: '... and {count} more country', other: '... and {count} more countries' },
+        'more.pages': { one: '... and {count} more page', other: '... and {count} more pages' },
+        'more.sources': { one: '... and {count} more source', other: '... and {count} more sources' },
+
+        // Daily report
+        'report.title': '📊 GOOGLE ANALYTICS REPORT',
+        'report.error': '❌ Could not collect Google Analytics data: {message}',
+        'quota.skipped': '⚠️ Google Analytics report skipped to preserve GA4 quota: {reason}',
+        'section.usersByCountry': '📊 Users by country (yesterday)',
+        'section.deviceSessions': '📱 Sessions by device (yesterday)',
+        'section.topPages': '📄 Top pages (last 7 days)',
+        'section.sourceConversions': '🔄 Conversions by source (last 7 days)',
+        'section.trafficComparison': '📈 Traffic comparison (today vs yesterday)',
+        'section.usersByCountry.period': '📊 Users by country ({period})',
+        'section.deviceSessions.period': '📱 Sessions by device ({period})',
+        'section.topPages.period': '📄 Top pages ({period})',
+        'section.sourceConversions.period': '🔄 Conversions by source ({period})',
+        'section.weekComparison': '📈 This week vs last week',
+        'comparison.thisWeek': 'This week',
+        'comparison.lastWeek': 'Last week',
+        'period.today': 'today',
+        'period.yesterday': 'yesterday',
+        'period.days': { one: 'last {count} day', other: 'last {count} days' },
+        'comparison.today': 'Today',
+        'comparison.yesterday': 'Yesterday',
+        'comparison.notEnoughData': 'Not enough data to compare',
+        'section.sessionsTrend': '📈 Sessions per day',
+        'trend.average': 'Daily average: {value}',
+        'trend.peak': 'Peak: {date} ({value})',
+        'chart.other': 'Other',
+        'export.caption': { one: '📎 Full data: {title} ({count} row)', other: '📎 Full data: {title} ({count} rows)' },
+
+        // Pivot
+        'pivot.total': 'Total',
+        'pivot.hidden': '... {rows} rows, {columns} columns hidden',
+
+        // Realtime
+        'realtime.title': '⚡ REALTIME TRAFFIC',
+        'realtime.activeUsers': '👥 Active users (last {minutes} min): <b>{count}</b>',
+        'realtime.lastMinutes': '⏱ Last 5 minutes: {values}',
+        'realtime.pages': '📄 Pages being viewed',
+        'realtime.countries': '🌍 Countries',
+        'realtime.devices': '📱 Devices',
+        'realtime.error': '❌ Could not collect realtime data: {message}',
+
+        // Funnel
+        'funnel.stepDetail': '↳ continued {completionRate} · dropped {abandonments} ({abandonmentRate})',
+        'funnel.completion': 'Funnel completion: {rate}',
+        'funnel.breakdownTitle': 'By {dimension}',
+        'funnel.breakdownRow': '{users}, completed {rate}',
+        'funnel.error': '❌ Could not collect funnel data: {message}',
+
+        // Anomaly
+        'anomaly.title.drop': '🚨 {metric} dropped unusually on {date}',
+        'anomaly.title.spike': '📈 {metric} spiked unusually on {date}',
+        'anomaly.title.segments': '⚠️ Unusual {metric} in some segments on {date}',
+        'anomaly.actual': 'Actual: {value}',
+        'anomaly.expected': {
+            one: 'Expected: {value} ± {deviation} (same weekday last week)',
+            other: 'Expected: {value} ± {deviation} (same weekday, last {count} weeks)'
+        },
+        'anomaly.zScore': 'Deviation: {value} standard deviations',
+        'anomaly.drivers': 'Main drivers by {dimension}:',
+        'anomaly.segments': 'Other unusual values of {dimension}:',
+        'anomaly.segment': '{segment}: {current} vs. {expected} ({change})',
+        'anomaly.share': '{share} of the change',
+        'anomaly.error': '❌ Could not check for anomalies: {message}',
+
+        // Threshold alerts
+        'alertRule.title': 'Alert: {name}',
+        'alertRule.resolved': '✅ Back to normal: {name}',
+        'alertRule.value': '{metric}: <b>{value}</b> (threshold {comparison} {threshold})',
+        'alertRule.window': 'Period: {period}',
+        'alertRule.filter': 'Filter: {filter}',
+
+        // Multiple properties
+        'leaderboard.title': '🏆 PROPERTY LEADERBOARD',
+        'leaderboard.period': 'Yesterday vs. the day before',
+        'leaderboard.total': 'Total',
+        'leaderboard.metric.sessions': 'Sessions',
+        'leaderboard.metric.totalUsers': 'Users',
+        'leaderboard.metric.activeUsers': 'Active users',
+        'leaderboard.metric.newUsers': 'New users',
+        'leaderboard.metric.conversions': 'Conversions',
+        'leaderboard.metric.screenPageViews': 'Views',
+        'multi.failed': { one: '⚠️ {count} property failed', other: '⚠️ {count} properties failed' },
+
+        // Failure reasons
+        'error.auth': 'Google authentication failed (check the service account key)',
+        'error.permission': 'The service account has no access to this GA4 property',
+        'error.invalidRequest': 'Invalid GA4 request',
+        'error.quota': 'GA4 quota exhausted',
+        'error.network': 'Network error',
+        'error.telegram': 'Telegram rejected the request',
+
+        'bot.help': '<b>🤖 Google Analytics report bot</b>\n'
+            + '/today - Today\'s report\n'
+            + '/yesterday - Yesterday\'s report\n'
+            + '/pages [period] - Top pages\n'
+            + '/sources [period] - Conversions by source\n'
+            + '/devices [period] - Sessions by device\n'
+            + '/compare [day|week] - Compare with the previous period\n\n'
+            + '<i>Period: {syntax}</i>',
+        'bot.invalidPeriod': '⚠️ Invalid period. Use: {syntax}',
+        'bot.invalidCompare': '⚠️ Use: /compare day or /compare week',
+        'bot.command.today': 'Today\'s report',
+        'bot.command.yesterday': 'Yesterday\'s report',
+        'bot.command.pages': 'Top pages, e.g. /pages 7d',
+        'bot.command.sources': 'Conversions by source, e.g. /sources 28d',
+        'bot.command.devices': 'Sessions by device, e.g. /devices week',
+        'bot.command.compare': 'Compare with the previous period: /compare day|week',
+        'bot.command.help': 'Usage',
+
+        'keyboard.yesterday': 'Yesterday',
+        'keyboard.days': { one: '{count} day', other: '{count} days' },
+        'keyboard.previousPage': '◀ Previous page',
+        'keyboard.nextPage': 'Next page ▶',
+        'keyboard.breakdown.device': '📱 By device',
+        'keyboard.noBreakdown': '↩ Remove breakdown',
+        'keyboard.expired': 'This button is no longer available, please send the command again',
+
+        'connection.ok': '✅ GA Insights connection is working!'
+    }
+};
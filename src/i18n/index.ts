@@ -0,0 +1,128 @@
+import { vi } from "./vi";
+import { en } from "./en";
+
+// Chuỗi dịch: một chuỗi cố định, hoặc các dạng số nhiều chọn theo tham số `count`
+export type TranslationMessage = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type TranslationParams = Record<string, string | number>;
+
+export interface TranslationCatalog {
+    // Locale dùng cho Intl khi định dạng số/ngày, ví dụ 'vi-VN'
+    intlLocale: string;
+    messages: Record<string, TranslationMessage>;
+}
+
+export const DEFAULT_LOCALE = 'vi';
+// Catalog dùng khi locale thiếu chuỗi dịch
+export const FALLBACK_LOCALE = 'en';
+
+const catalogs = new Map<string, TranslationCatalog>([
+    ['vi', vi],
+    ['en', en]
+]);
+
+/**
+ * Đăng ký catalog cho một locale mới, hoặc ghi đè một phần chuỗi dịch của locale đã có
+ * @param locale Mã locale, ví dụ 'fr' hoặc 'pt-BR'
+ * @param catalog Chuỗi dịch (intlLocale mặc định là chính mã locale)
+ */
+export function registerLocale(locale: string, catalog: Partial<TranslationCatalog>): void {
+    const key = locale.toLowerCase();
+    const existing = catalogs.get(key);
+
+    catalogs.set(key, {
+        intlLocale: catalog.intlLocale || existing?.intlLocale || locale,
+        messages: { ...existing?.messages, ...catalog.messages }
+    });
+}
+
+export function getRegisteredLocales(): string[] {
+    return Array.from(catalogs.keys());
+}
+
+/**
+ * Dịch chuỗi và định dạng số/phần trăm/ngày theo một locale
+ */
+export class Translator {
+    private numberFormat: Intl.NumberFormat;
+    private pluralRules: Intl.PluralRules;
+
+    constructor(
+        readonly locale: string,
+        private catalog: TranslationCatalog,
+        private fallback?: TranslationCatalog
+    ) {
+        this.numberFormat = new Intl.NumberFormat(catalog.intlLocale, { maximumFractionDigits: 2 });
+        this.pluralRules = new Intl.PluralRules(catalog.intlLocale);
+    }
+
+    get intlLocale(): string {
+        return this.catalog.intlLocale;
+    }
+
+    has(key: string): boolean {
+        return key in this.catalog.messages || (!!this.fallback && key in this.fallback.messages);
+    }
+
+    /**
+     * Dịch theo khóa; tham số kiểu số được định dạng theo locale.
+     * Khóa không có trong catalog được trả về nguyên văn (dùng được cho tiêu đề tự viết)
+     */
+    t(key: string, params: TranslationParams = {}): string {
+        const message = this.catalog.messages[key] ?? this.fallback?.messages[key];
+        if (message === undefined) return key;
+
+        const template = typeof message === 'string'
+            ? message
+            : message[this.pluralRules.select(Number(params.count ?? 0))] ?? message.other;
+
+        return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+            const value = params[name];
+            if (value === undefined) return match;
+            return typeof value === 'number' ? this.number(value) : value;
+        });
+    }
+
+    number(value: number, options?: Intl.NumberFormatOptions): string {
+        return options
+            ? new Intl.NumberFormat(this.catalog.intlLocale, options).format(value)
+            : this.numberFormat.format(value);
+    }
+
+    /**
+     * Định dạng tỷ lệ (0.123 → "12.3%")
+     */
+    percent(ratio: number, fractionDigits: number = 1): string {
+        return this.number(ratio, {
+            style: 'percent',
+            minimumFractionDigits: fractionDigits,
+            maximumFractionDigits: fractionDigits
+        });
+    }
+
+    date(date: Date, options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' }): string {
+        return date.toLocaleDateString(this.catalog.intlLocale, options);
+    }
+
+    time(date: Date, options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' }): string {
+        return date.toLocaleTimeString(this.catalog.intlLocale, options);
+    }
+}
+
+/**
+ * Lấy Translator cho locale; 'en-GB' dùng catalog 'en' nhưng định dạng số/ngày theo en-GB
+ */
+export function getTranslator(locale: string = DEFAULT_LOCALE): Translator {
+    const key = locale.toLowerCase();
+    const language = key.split('-')[0];
+    const exact = catalogs.get(key);
+    const catalog = exact || catalogs.get(language);
+
+    if (!catalog) {
+        throw new Error(`Unknown locale "${locale}". Registered: ${getRegisteredLocales().join(', ')}`);
+    }
+
+    const resolved = exact ? catalog : { ...catalog, intlLocale: locale };
+    const fallback = language === FALLBACK_LOCALE ? undefined : catalogs.get(FALLBACK_LOCALE);
+    return new Translator(locale, resolved, fallback);
+}
@@ -0,0 +1,134 @@
+import type { TranslationCatalog } from "./index";
+
+export const vi: TranslationCatalog = {
+    intlLocale: 'vi-VN',
+    messages: {
+        // Chung
+        'common.noData': 'Không có dữ liệu',
+        'common.total': 'Tổng: {value}',
+        'common.service': 'Service: {name}',
+        'unit.users': '{count} người dùng',
+        'unit.sessions': '{count} phiên',
+        'unit.views': '{count} lượt xem',
+        'unit.conversions': '{count} chuyển đổi',
+        'more.countries': '... và {count} quốc gia khác',
+        'more.pages': '... và {count} trang khác',
+        'more.sources': '... và {count} nguồn khác',
+
+        // Báo cáo hàng ngày
+        'report.title': '📊 BÁO CÁO GOOGLE ANALYTICS',
+        'report.error': '❌ Không thể thu thập dữ liệu Google Analytics: {message}',
+        'quota.skipped': '⚠️ Đã bỏ qua báo cáo Google Analytics để giữ quota GA4: {reason}',
+        'section.usersByCountry': '📊 Người dùng theo quốc gia (hôm qua)',
+        'section.deviceSessions': '📱 Phiên theo thiết bị (hôm qua)',
+        'section.topPages': '📄 Trang phổ biến (7 ngày qua)',
+        'section.sourceConversions': '🔄 Chuyển đổi theo nguồn (7 ngày qua)',
+        'section.trafficComparison': '📈 So sánh lưu lượng (hôm nay vs hôm qua)',
+        'section.usersByCountry.period': '📊 Người dùng theo quốc gia ({period})',
+        'section.deviceSessions.period': '📱 Phiên theo thiết bị ({period})',
+        'section.topPages.period': '📄 Trang phổ biến ({period})',
+        'section.sourceConversions.period': '🔄 Chuyển đổi theo nguồn ({period})',
+        'section.weekComparison': '📈 So sánh tuần này vs tuần trước',
+        'comparison.thisWeek': 'Tuần này',
+        'comparison.lastWeek': 'Tuần trước',
+        'period.today': 'hôm nay',
+        'period.yesterday': 'hôm qua',
+        'period.days': '{count} ngày qua',
+        'comparison.today': 'Hôm nay',
+        'comparison.yesterday': 'Hôm qua',
+        'comparison.notEnoughData': 'Không đủ dữ liệu để so sánh',
+        'section.sessionsTrend': '📈 Phiên theo ngày',
+        'trend.average': 'Trung bình mỗi ngày: {value}',
+        'trend.peak': 'Cao nhất: {date} ({value})',
+        'chart.other': 'Khác',
+        'export.caption': '📎 Dữ liệu đầy đủ: {title} ({count} dòng)',
+
+        // Bảng pivot
+        'pivot.total': 'Tổng',
+        'pivot.hidden': '... ẩn {rows} dòng, {columns} cột',
+
+        // Thời gian thực
+        'realtime.title': '⚡ TRUY CẬP THỜI GIAN THỰC',
+        'realtime.activeUsers': '👥 Người dùng đang hoạt động ({minutes} phút qua): <b>{count}</b>',
+        'realtime.lastMinutes': '⏱ 5 phút gần nhất: {values}',
+        'realtime.pages': '📄 Trang đang được xem',
+        'realtime.countries': '🌍 Quốc gia',
+        'realtime.devices': '📱 Thiết bị',
+        'realtime.error': '❌ Không thể thu thập dữ liệu thời gian thực: {message}',
+
+        // Phễu chuyển đổi
+        'funnel.stepDetail': '↳ đi tiếp {completionRate} · rời bỏ {abandonments} ({abandonmentRate})',
+        'funnel.completion': 'Hoàn thành phễu: {rate}',
+        'funnel.breakdownTitle': 'Theo {dimension}',
+        'funnel.breakdownRow': '{users}, hoàn thành {rate}',
+        'funnel.error': '❌ Không thể thu thập dữ liệu phễu: {message}',
+
+        // Bất thường
+        'anomaly.title.drop': '🚨 {metric} giảm bất thường ngày {date}',
+        'anomaly.title.spike': '📈 {metric} tăng bất thường ngày {date}',
+        'anomaly.title.segments': '⚠️ {metric} bất thường ở một số nhóm ngày {date}',
+        'anomaly.actual': 'Thực tế: {value}',
+        'anomaly.expected': 'Dự kiến: {value} ± {deviation} (cùng thứ trong {count} tuần trước)',
+        'anomaly.zScore': 'Độ lệch: {value} lần độ lệch chuẩn',
+        'anomaly.drivers': 'Nguyên nhân chính theo {dimension}:',
+        'anomaly.segments': 'Giá trị {dimension} bất thường khác:',
+        'anomaly.segment': '{segment}: {current} so với {expected} ({change})',
+        'anomaly.share': '{share} mức thay đổi',
+        'anomaly.error': '❌ Không thể kiểm tra bất thường: {message}',
+
+        // Cảnh báo theo ngưỡng
+        'alertRule.title': 'Cảnh báo: {name}',
+        'alertRule.resolved': '✅ Đã trở lại bình thường: {name}',
+        'alertRule.value': '{metric}: <b>{value}</b> (ngưỡng {comparison} {threshold})',
+        'alertRule.window': 'Khoảng thời gian: {period}',
+        'alertRule.filter': 'Bộ lọc: {filter}',
+
+        // Nhiều property
+        'leaderboard.title': '🏆 BẢNG XẾP HẠNG PROPERTY',
+        'leaderboard.period': 'Hôm qua so với hôm kia',
+        'leaderboard.total': 'Tổng',
+        'leaderboard.metric.sessions': 'Phiên',
+        'leaderboard.metric.totalUsers': 'Người dùng',
+        'leaderboard.metric.activeUsers': 'Người dùng hoạt động',
+        'leaderboard.metric.newUsers': 'Người dùng mới',
+        'leaderboard.metric.conversions': 'Chuyển đổi',
+        'leaderboard.metric.screenPageViews': 'Lượt xem',
+        'multi.failed': '⚠️ {count} property bị lỗi',
+
+        // Lý do lỗi
+        'error.auth': 'Lỗi xác thực Google (kiểm tra service account)',
+        'error.permission': 'Service account không có quyền truy cập property GA4',
+        'error.invalidRequest': 'Request GA4 không hợp lệ',
+        'error.quota': 'Đã hết quota GA4',
+        'error.network': 'Lỗi kết nối mạng',
+        'error.telegram': 'Telegram từ chối yêu cầu',
+
+        'bot.help': '<b>🤖 Bot báo cáo Google Analytics</b>\n'
+            + '/today - Báo cáo hôm nay\n'
+            + '/yesterday - Báo cáo hôm qua\n'
+            + '/pages [thời gian] - Trang phổ biến\n'
+            + '/sources [thời gian] - Chuyển đổi theo nguồn\n'
+            + '/devices [thời gian] - Phiên theo thiết bị\n'
+            + '/compare [day|week] - So sánh với kỳ trước\n\n'
+            + '<i>Thời gian: {syntax}</i>',
+        'bot.invalidPeriod': '⚠️ Khoảng thời gian không hợp lệ. Dùng: {syntax}',
+        'bot.invalidCompare': '⚠️ Dùng: /compare day hoặc /compare week',
+        'bot.command.today': 'Báo cáo hôm nay',
+        'bot.command.yesterday': 'Báo cáo hôm qua',
+        'bot.command.pages': 'Trang phổ biến, ví dụ /pages 7d',
+        'bot.command.sources': 'Chuyển đổi theo nguồn, ví dụ /sources 28d',
+        'bot.command.devices': 'Phiên theo thiết bị, ví dụ /devices week',
+        'bot.command.compare': 'So sánh với kỳ trước: /compare day|week',
+        'bot.command.help': 'Hướng dẫn sử dụng',
+
+        'keyboard.yesterday': 'Hôm qua',
+        'keyboard.days': '{count} ngày',
+        'keyboard.previousPage': '◀ Trang trước',
+        'keyboard.nextPage': 'Trang sau ▶',
+        'keyboard.breakdown.device': '📱 Theo thiết bị',
+        'keyboard.noBreakdown': '↩ Bỏ chia nhỏ',
+        'keyboard.expired': 'Nút này không còn dùng được, hãy gửi lại lệnh',
+
+        'connection.ok': '✅ Kết nối GA Insights đã hoạt động!'
+    }
+};
@@ -1,3 +1,258 @@
-export { GA4Service } from './ga.service';
-export { GAInsightsService } from './ga-insights.service';
-export { TelegramService } from './telegram.service'; 
\ No newline at end of file
+export { GA4Service, GA4ServiceOptions } from './ga.service';
+export {
+    GAInsightsService,
+    GAInsightsServiceOptions,
+    AnomalyAlertOptions,
+    DigestMessages,
+    DigestSendOptions
+} from './ga-insights.service';
+export {
+    MultiPropertyInsightsService,
+    MultiPropertyOptions,
+    PropertyConfig,
+    PropertyRunResult,
+    Leaderboard,
+    LeaderboardEntry,
+    formatLeaderboard
+} from './multi-property.service';
+export {
+    TelegramService,
+    TelegramServiceOptions,
+    TelegramDestination,
+    TelegramPhoto,
+    parseTelegramDestination
+} from './telegram.service';
+export {
+    TelegramSendQueue,
+    TelegramQueueOptions,
+    TelegramDeliverySummary,
+    TelegramDeliveryFailure
+} from './telegram-queue';
+export { TelegramRouter, TelegramRoute, RoutedSections, AlertSeverity } from './telegram-router';
+export {
+    AlertRule,
+    AlertRuleFilter,
+    AlertComparison,
+    AlertRuleState,
+    AlertStateStore,
+    AlertRuleResult,
+    AlertRuleEngineOptions,
+    AlertRuleEngine,
+    MemoryAlertStateStore,
+    FileAlertStateStore,
+    buildAlertRuleFilter,
+    validateAlertRules,
+    loadAlertRules,
+    formatAlertRuleMessage
+} from './alert-rules';
+export {
+    ReportScheduler,
+    ReportSchedulerOptions,
+    ScheduledJob,
+    ScheduledJobState,
+    SchedulerStateStore,
+    MissedRunPolicy,
+    MemorySchedulerStateStore,
+    FileSchedulerStateStore
+} from './scheduler';
+export { CronSchedule, parseCron, nextCronTime, isValidTimeZone } from './utils/cron';
+export { JsonFileStore } from './utils/json-file-store';
+export { SettledResult, mapWithConcurrency } from './utils/concurrency';
+export {
+    ToolkitError,
+    ToolkitErrorOptions,
+    GA4Error,
+    GA4ErrorOptions,
+    GA4AuthError,
+    GA4PermissionError,
+    GA4InvalidRequestError,
+    GA4QuotaError,
+    GA4QuotaErrorOptions,
+    NetworkError,
+    NetworkErrorOptions,
+    TelegramApiError,
+    TelegramApiErrorOptions,
+    describeError
+} from './errors';
+export { TelegramBotService, TelegramBotOptions, TelegramBotWebhookOptions } from './telegram-bot.service';
+export { TokenCache, sharedTokenCache } from './utils/token-cache';
+export { RetryOptions, backoffDelay, withRetry } from './utils/retry';
+export { GA4QuotaState, GA4QuotaUsage, QuotaGuardOptions, checkQuotaGuard, quotaTokensConsumed } from './utils/quota';
+export {
+    CountryUserReport,
+    FunnelReportResult,
+    FunnelStepDefinition,
+    FunnelStepResult,
+    GA4DateRange,
+    GA4FieldFilter,
+    GA4Filter,
+    GA4CompatibilityResponse,
+    GA4FilterExpression,
+    GA4Funnel,
+    GA4FunnelResponse,
+    GA4Metadata,
+    GA4MetricType,
+    GA4MinuteRange,
+    GA4OrderBy,
+    GA4Pivot,
+    GA4PivotResponse,
+    GA4PropertyQuota,
+    GA4QuotaStatus,
+    GA4ReportRequest,
+    GA4Response,
+    GoogleApiErrorBody,
+    PivotMatrix,
+    ReportPaginationOptions,
+    ReportResult,
+    TypedReport,
+    TypedReportResult,
+    TypedReportRow
+} from './ga.types';
+export { parseReport, toLegacyRows, withLegacyShape, metricValueInSeconds } from './utils/report-parser';
+export {
+    andGroup,
+    orGroup,
+    notExpression,
+    stringFilter,
+    inListFilter,
+    numericFilter,
+    betweenFilter,
+    emptyFilter,
+    normalizeFilterExpression,
+    validateFilterExpression,
+    parseFilterString,
+    ParsedFilters
+} from './utils/filters';
+export {
+    ReportQuery,
+    ReportQueryResult,
+    buildReportRequest,
+    withDimensionFilter,
+    withPage,
+    usersByCountryQuery,
+    topConversionEventsQuery,
+    conversionsBySourceMediumQuery,
+    conversionsByDeviceQuery,
+    popularPagesWithEngagementQuery,
+    userJourneyPathsQuery,
+    topInteractionEventsQuery,
+    sessionsByDeviceCategoryQuery,
+    sessionsByDefaultChannelGroupQuery,
+    organicVsPaidQuery,
+    usersByCityQuery,
+    usersByAgeBracketQuery,
+    todayVsYesterdayQuery,
+    thisWeekVsLastWeekQuery,
+    dailyTrendQuery,
+    sameWeekdayHistoryQuery,
+    dayOverDayTotalsQuery,
+    PeriodOverPeriodTotals
+} from './ga.queries';
+export { ReportPeriod, PERIOD_SYNTAX, parsePeriod, formatPeriod, parseDuration } from './utils/periods';
+export {
+    ReportView,
+    ReportKeyboardOptions,
+    REPORT_CALLBACK_PREFIX,
+    ALL_SECTIONS_SCOPE,
+    encodeReportView,
+    decodeReportView,
+    buildReportKeyboard
+} from './utils/report-keyboard';
+export { toPivotMatrix, formatPivotTable, PivotTableLabels, PivotTableOptions } from './utils/pivot';
+export { buildFunnelSteps, parseFunnelReport } from './utils/funnel';
+export { FieldValidationError, findFieldErrors, findInvalidFields, suggestNames } from './utils/metadata';
+export {
+    AnomalyCheck,
+    AnomalyDirection,
+    AnomalyDriver,
+    AnomalyOptions,
+    AnomalyReport,
+    SameWeekdayWindow,
+    analyzeSameWeekday,
+    checkAnomaly,
+    formatAnomalyAlert,
+    hasAnomaly,
+    shiftGA4Date,
+    toDateRangeDate,
+    yesterdayInTimeZone
+} from './utils/anomaly';
+export {
+    AnyReportSection,
+    ReportBreakdown,
+    ReportSection,
+    ReportSectionRegistry,
+    SectionQueryOptions,
+    SectionAttachment,
+    SectionChart,
+    SectionContext,
+    DEFAULT_SECTION_IDS,
+    DEVICE_BREAKDOWN,
+    REPORT_BREAKDOWNS,
+    buildSectionQuery,
+    sectionTopN,
+    supportsBreakdown,
+    createDefaultSectionRegistry,
+    createSessionsTrendSection,
+    createWeekComparisonSection,
+    renderSection,
+    renderSectionChart,
+    formatCountryReport,
+    formatDeviceReport,
+    formatPagesReport,
+    formatConversionsReport,
+    formatComparisonReport,
+    formatWeekComparisonReport,
+    formatSessionsTrendReport
+} from './report-sections';
+export {
+    Translator,
+    TranslationCatalog,
+    TranslationMessage,
+    TranslationParams,
+    DEFAULT_LOCALE,
+    FALLBACK_LOCALE,
+    registerLocale,
+    getRegisteredLocales,
+    getTranslator
+} from './i18n';
+export {
+    TELEGRAM_MESSAGE_LIMIT,
+    InlineKeyboardButton,
+    InlineKeyboardMarkup,
+    TelegramParseMode,
+    TelegramMessageBuilder,
+    escapeHtml,
+    escapeMarkdownV2,
+    escapeMarkdownV2Code,
+    escapeText,
+    splitMessage
+} from './utils/telegram-message';
+export {
+    Bitmap,
+    RGB,
+    encodePng,
+    ChartData,
+    ChartOptions,
+    ChartSeries,
+    ChartType,
+    DEFAULT_CHART_COLORS,
+    chartDataFromReport,
+    renderBarChart,
+    renderChart,
+    renderLineChart,
+    renderPieChart
+} from './charts';
+export {
+    ExportFormat,
+    ExportOptions,
+    ExportedFile,
+    ReportTable,
+    exportReport,
+    reportToTable,
+    toCsv,
+    toJson,
+    toTextTable,
+    toXlsx,
+    createXlsx,
+    createZip
+} from './exporters';
@@ -0,0 +1,282 @@
+import { logger } from "./utils/logger";
+import { GA4ServiceOptions, GoogleServiceAccountKeyInput } from "./ga.service";
+import { DigestSendOptions, GAInsightsService } from "./ga-insights.service";
+import { TelegramService, TelegramServiceOptions } from "./telegram.service";
+import { TelegramRoute } from "./telegram-router";
+import { createDefaultSectionRegistry, ReportSectionRegistry } from "./report-sections";
+import { dayOverDayTotalsQuery, PeriodOverPeriodTotals } from "./ga.queries";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { escapeHtml, TelegramMessageBuilder } from "./utils/telegram-message";
+import { DEFAULT_LOCALE, getTranslator, Translator } from "./i18n";
+import { describeError } from "./errors";
+
+/**
+ * Một property GA4 với tên hiển thị và thông tin xác thực riêng
+ */
+export interface PropertyConfig {
+    propertyId: string;
+    name: string;
+    keyFilePath?: string;
+    serviceAccountObj?: GoogleServiceAccountKeyInput;
+    // Tùy chọn GA4Service riêng của property (ghi đè tùy chọn chung)
+    ga4?: GA4ServiceOptions;
+}
+
+export interface MultiPropertyOptions {
+    // Số property được truy vấn cùng lúc (mặc định 3)
+    concurrency?: number;
+    // Ngôn ngữ tin nhắn (mặc định 'vi')
+    locale?: string;
+    // Section của báo cáo từng property (mặc định 5 section của báo cáo hàng ngày)
+    sections?: ReportSectionRegistry;
+    // Metric của bảng xếp hạng, xếp theo metric đầu tiên (mặc định sessions, totalUsers, conversions)
+    leaderboardMetrics?: string[];
+    // Cấu hình Telegram hoặc instance có sẵn, dùng chung cho mọi property
+    telegram?: TelegramService | TelegramServiceOptions;
+    routes?: TelegramRoute[];
+    // Tùy chọn GA4Service chung (mặc định dùng chung cache token giữa các property)
+    ga4?: GA4ServiceOptions;
+}
+
+// Kết quả của một property trong một lần chạy
+export interface PropertyRunResult {
+    name: string;
+    propertyId: string;
+    success: boolean;
+    error?: string;
+}
+
+// Một dòng của bảng xếp hạng
+export interface LeaderboardEntry {
+    name: string;
+    propertyId: string;
+    totals: PeriodOverPeriodTotals;
+}
+
+export interface Leaderboard {
+    metrics: string[];
+    // Xếp theo metric đầu tiên, giảm dần
+    entries: LeaderboardEntry[];
+    // Tổng của các property thành công
+    totals: PeriodOverPeriodTotals;
+    failures: PropertyRunResult[];
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_LEADERBOARD_METRICS = ['sessions', 'totalUsers', 'conversions'];
+
+/**
+ * Báo cáo cho nhiều property GA4: truy vấn song song (giới hạn số property cùng lúc), gửi báo cáo
+ * riêng cho từng property hoặc một bảng xếp hạng chung. Property lỗi được báo lại mà không làm dừng các property khác
+ */
+export class MultiPropertyInsightsService {
+    private properties: PropertyConfig[];
+    private services: GAInsightsService[];
+    private telegramService: TelegramService;
+    private concurrency: number;
+    private locale: string;
+    private leaderboardMetrics: string[];
+
+    constructor(properties: PropertyConfig[], options: MultiPropertyOptions = {}) {
+        if (properties.length === 0) {
+            throw new Error('At least one property is required');
+        }
+        const duplicate = properties.find((property, index) => properties.findIndex(item => item.name === property.name) !== index);
+        if (duplicate) {
+            throw new Error(`Duplicate property name "${duplicate.name}"`);
+        }
+
+        this.properties = properties;
+        this.telegramService = options.telegram instanceof TelegramService
+            ? options.telegram
+            : new TelegramService(options.telegram);
+        this.concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+        this.locale = options.locale || DEFAULT_LOCALE;
+        this.leaderboardMetrics = options.leaderboardMetrics || DEFAULT_LEADERBOARD_METRICS;
+
+        const sections = options.sections || createDefaultSectionRegistry();
+        this.services = properties.map(property => new GAInsightsService(
+            property.propertyId,
+            property.name,
+            property.keyFilePath || '',
+            property.serviceAccountObj,
+            {
+                telegram: this.telegramService,
+                routes: options.routes,
+                locale: this.locale,
+                sections,
+                ga4: { shareTokenCache: true, ...options.ga4, ...property.ga4 }
+            }
+        ));
+    }
+
+    getProperties(): PropertyConfig[] {
+        return [...this.properties];
+    }
+
+    /**
+     * GAInsightsService của một property theo tên
+     */
+    getService(name: string): GAInsightsService | undefined {
+        const index = this.properties.findIndex(property => property.name === name);
+        return index === -1 ? undefined : this.services[index];
+    }
+
+    /**
+     * Gửi báo cáo riêng cho từng property. Dữ liệu được thu thập song song, tin nhắn được gửi
+     * lần lượt theo thứ tự property để báo cáo không xen kẽ; cuối cùng gửi danh sách property lỗi (nếu có)
+     * @param sectionIds Chọn và sắp xếp section theo id (mặc định tất cả)
+     * @param options Ngôn ngữ, khoảng thời gian... cho lần gửi này (không gồm biểu đồ và file đính kèm)
+     */
+    async sendDigests(sectionIds?: string[], options: DigestSendOptions = {}): Promise<PropertyRunResult[]> {
+        logger.info(`Đang thu thập báo cáo của ${this.services.length} property (tối đa ${this.concurrency} cùng lúc)...`);
+
+        const digests = await mapWithConcurrency(this.services, this.concurrency, async service => {
+            // Giữ quota của property như báo cáo định kỳ của từng property
+            service.getGA4Service().assertQuotaAvailable();
+
+            return service.buildDigest(service.getSections().select(sectionIds), options);
+        });
+
+        const t = getTranslator(options.locale || this.locale);
+        const results: PropertyRunResult[] = [];
+        for (const [index, digest] of digests.entries()) {
+            const { propertyId, name } = this.properties[index];
+            if (!digest.ok) {
+                logger.error(`Lỗi khi thu thập báo cáo của ${name}:`, digest.error.message);
+                results.push({ name, propertyId, success: false, error: describeError(digest.error, t) });
+                continue;
+            }
+
+            const sent = await this.telegramService.sendMessage(digest.value.messages, 'HTML');
+            results.push(sent
+                ? { name, propertyId, success: true }
+                : { name, propertyId, success: false, error: this.deliveryError(t) });
+        }
+
+        const failures = results.filter(result => !result.success);
+        if (failures.length > 0) {
+            await this.telegramService.sendMessage(this.formatFailures(failures, t), 'HTML');
+        }
+
+        logger.info(`Đã gửi báo cáo của ${results.length - failures.length}/${results.length} property`);
+        return results;
+    }
+
+    /**
+     * Thu thập tổng của các metric (hôm qua so với hôm kia) cho mọi property
+     * @param locale Ngôn ngữ của lý do lỗi (mặc định theo service)
+     */
+    async getLeaderboard(locale?: string): Promise<Leaderboard> {
+        const t = getTranslator(locale || this.locale);
+        const metrics = this.leaderboardMetrics;
+        const settled = await mapWithConcurrency(this.services, this.concurrency, service =>
+            service.getGA4Service().runQuery(dayOverDayTotalsQuery(metrics))
+        );
+
+        const entries: LeaderboardEntry[] = [];
+        const failures: PropertyRunResult[] = [];
+        settled.forEach((result, index) => {
+            const { propertyId, name } = this.properties[index];
+            if (result.ok) {
+                entries.push({ name, propertyId, totals: result.value });
+            } else {
+                logger.error(`Lỗi khi thu thập số liệu của ${name}:`, result.error.message);
+                failures.push({ name, propertyId, success: false, error: describeError(result.error, t) });
+            }
+        });
+
+        const [rankBy] = metrics;
+        entries.sort((a, b) => b.totals.current[rankBy] - a.totals.current[rankBy]);
+
+        const sum = (period: keyof PeriodOverPeriodTotals) => Object.fromEntries(metrics.map(metric =>
+            [metric, entries.reduce((total, entry) => total + entry.totals[period][metric], 0)]
+        ));
+
+        return { metrics, entries, totals: { current: sum('current'), previous: sum('previous') }, failures };
+    }
+
+    /**
+     * Gửi bảng xếp hạng các property (kèm thay đổi so với ngày trước và tổng)
+     * @returns Kết quả của từng property
+     */
+    async sendLeaderboard(locale?: string): Promise<PropertyRunResult[]> {
+        logger.info(`Đang thu thập bảng xếp hạng của ${this.services.length} property...`);
+        const leaderboard = await this.getLeaderboard(locale);
+        const t = getTranslator(locale || this.locale);
+
+        const sent = await this.telegramService.sendMessage(formatLeaderboard(leaderboard, t), 'HTML');
+        const error = sent ? undefined : this.deliveryError(t);
+        const successes = leaderboard.entries.map(({ name, propertyId }) => sent
+            ? { name, propertyId, success: true }
+            : { name, propertyId, success: false, error });
+
+        // Giữ thứ tự khai báo property
+        return this.properties.map(({ name }) =>
+            [...successes, ...leaderboard.failures].find(result => result.name === name) as PropertyRunResult
+        );
+    }
+
+    // Lý do gửi Telegram thất bại (TelegramApiError, lỗi mạng...)
+    private deliveryError(t: Translator): string {
+        const error = this.telegramService.getLastError();
+        return error ? describeError(error, t) : 'Telegram delivery failed';
+    }
+
+    private formatFailures(failures: PropertyRunResult[], t: Translator): string {
+        let message = `<b>${t.t('multi.failed', { count: failures.length })}</b>\n`;
+        for (const failure of failures) {
+            message += `- ${escapeHtml(failure.name)}: ${escapeHtml(failure.error || '')}\n`;
+        }
+        return message;
+    }
+}
+
+function formatChange(current: number, previous: number, t: Translator): string {
+    if (previous <= 0) return '';
+    const change = (current - previous) / previous;
+    return ` (${change >= 0 ? '▲' : '▼'} ${t.percent(Math.abs(change))})`;
+}
+
+function metricLabel(metric: string, t: Translator): string {
+    const key = `leaderboard.metric.${metric}`;
+    return t.has(key) ? t.t(key) : metric;
+}
+
+function formatTotals(metrics: string[], totals: PeriodOverPeriodTotals, t: Translator): string {
+    return metrics
+        .map(metric => `${escapeHtml(metricLabel(metric, t))} ${t.number(totals.current[metric])}${formatChange(totals.current[metric], totals.previous[metric], t)}`)
+        .join(' · ');
+}
+
+/**
+ * Định dạng bảng xếp hạng các property (HTML)
+ */
+export function formatLeaderboard(leaderboard: Leaderboard, t: Translator): string[] {
+    const message = new TelegramMessageBuilder('HTML')
+        .bold(t.t('leaderboard.title')).newline()
+        .italic(t.t('leaderboard.period')).newline()
+        .newline();
+
+    leaderboard.entries.forEach((entry, index) => {
+        message.section()
+            .raw(`${index + 1}. <b>${escapeHtml(entry.name)}</b>\n`)
+            .raw(`   ${formatTotals(leaderboard.metrics, entry.totals, t)}\n`);
+    });
+
+    if (leaderboard.entries.length > 1) {
+        message.section()
+            .newline()
+            .raw(`<b>${t.t('leaderboard.total')}</b>\n`)
+            .raw(`   ${formatTotals(leaderboard.metrics, leaderboard.totals, t)}\n`);
+    }
+
+    if (leaderboard.failures.length > 0) {
+        message.section().newline().raw(`<b>${t.t('multi.failed', { count: leaderboard.failures.length })}</b>\n`);
+        for (const failure of leaderboard.failures) {
+            message.raw(`- ${escapeHtml(failure.name)}: ${escapeHtml(failure.error || '')}\n`);
+        }
+    }
+
+    return message.build();
+}
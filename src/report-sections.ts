@@ -0,0 +1,482 @@
+import { ReportQuery, withDimensionFilter, withPage } from "./ga.queries";
+import {
+    conversionsBySourceMediumQuery,
+    dailyTrendQuery,
+    popularPagesWithEngagementQuery,
+    sessionsByDeviceCategoryQuery,
+    thisWeekVsLastWeekQuery,
+    todayVsYesterdayQuery,
+    usersByCountryQuery
+} from "./ga.queries";
+import { GA4FilterExpression, TypedReportResult } from "./ga.types";
+import { metricValueInSeconds } from "./utils/report-parser";
+import { getTranslator, Translator } from "./i18n";
+import { escapeHtml } from "./utils/telegram-message";
+import { chartDataFromReport, ChartType, renderChart } from "./charts";
+import { ExportFormat } from "./exporters";
+import { ReportPeriod } from "./utils/periods";
+
+// Thông tin truyền cho formatter của từng section
+export interface SectionContext {
+    // Số dòng tối đa hiển thị
+    topN: number;
+    // Dịch chuỗi và định dạng số theo locale của lần gửi
+    t: Translator;
+}
+
+// Biểu đồ đính kèm của section (dựng từ chính dữ liệu của section)
+export interface SectionChart {
+    type: ChartType;
+    // Dimension làm nhãn, metric làm series
+    dimension: string;
+    metrics: string | string[];
+    // Số dòng tối đa đưa vào biểu đồ
+    limit?: number;
+}
+
+// File dữ liệu đính kèm của section
+export interface SectionAttachment {
+    format: ExportFormat;
+    // Truy vấn riêng cho file (ví dụ lấy toàn bộ dòng); mặc định dùng dữ liệu của section
+    query?: (period?: ReportPeriod) => ReportQuery<TypedReportResult<string, string>>;
+}
+
+/**
+ * Định nghĩa một section trong báo cáo gửi qua Telegram
+ */
+export interface ReportSection<T extends TypedReportResult<string, string> = TypedReportResult<string, string>> {
+    // Định danh duy nhất, dùng để chọn/sắp xếp section
+    id: string;
+    // Tiêu đề, hoặc khóa dịch trong catalog (ví dụ 'section.topPages')
+    title: string;
+    // Tạo truy vấn mới mỗi lần gửi (để ngày tháng luôn đúng).
+    // Section hỗ trợ chọn khoảng thời gian dùng `period` khi được truyền vào
+    query: (period?: ReportPeriod) => ReportQuery<T>;
+    // Khóa dịch của tiêu đề khi chọn khoảng thời gian, nhận tham số {period}
+    periodTitle?: string;
+    // Trả về HTML; giá trị lấy từ dữ liệu cần được escape (xem escapeHtml)
+    format: (data: T, context: SectionContext) => string;
+    // Số dòng tối đa hiển thị (mặc định 5), cũng là kích thước trang khi phân trang
+    topN?: number;
+    // Cho phép xem trang tiếp theo (truy vấn theo offset); chỉ dùng cho section dạng danh sách xếp hạng
+    pageable?: boolean;
+    // Thứ tự trong báo cáo, số nhỏ đứng trước
+    order?: number;
+    // Biểu đồ gửi kèm khi bật đính kèm biểu đồ
+    chart?: SectionChart;
+    // File dữ liệu gửi kèm khi bật đính kèm file
+    attachment?: SectionAttachment;
+}
+
+/**
+ * Section với kiểu dữ liệu bất kỳ, dùng cho danh sách gồm nhiều loại section (registry, báo cáo).
+ * Mọi ReportSection<T> đều gán được; dữ liệu truyền cho `format` phải lấy từ chính `query` của section (xem renderSection)
+ */
+export type AnyReportSection = Omit<ReportSection, 'format'> & {
+    format: (data: never, context: SectionContext) => string;
+};
+
+const DEFAULT_TOP_N = 5;
+// Số dòng tối đa của file dữ liệu đính kèm mặc định
+const ATTACHMENT_ROW_LIMIT = 1000;
+
+/**
+ * Chia nhỏ section theo các giá trị của một dimension, mỗi giá trị là một truy vấn có lọc
+ */
+export interface ReportBreakdown {
+    // Định danh ngắn (dùng trong callback của nút bấm)
+    id: string;
+    dimension: string;
+    values: string[];
+}
+
+export const DEVICE_BREAKDOWN: ReportBreakdown = {
+    id: 'device',
+    dimension: 'deviceCategory',
+    values: ['desktop', 'mobile', 'tablet']
+};
+
+// Các breakdown có nút bấm trên bàn phím điều hướng
+export const REPORT_BREAKDOWNS: ReportBreakdown[] = [DEVICE_BREAKDOWN];
+
+// Tùy chọn dựng truy vấn của section
+export interface SectionQueryOptions {
+    period?: ReportPeriod;
+    // Trang cần lấy (bắt đầu từ 0), chỉ áp dụng cho section có `pageable`
+    page?: number;
+    // Bộ lọc bổ sung, ví dụ một giá trị của breakdown
+    filter?: GA4FilterExpression;
+}
+
+/**
+ * Số dòng hiển thị của section
+ */
+export function sectionTopN(section: AnyReportSection): number {
+    return section.topN ?? DEFAULT_TOP_N;
+}
+
+/**
+ * Dựng truy vấn của section theo khoảng thời gian, trang và bộ lọc bổ sung
+ */
+export function buildSectionQuery(
+    section: AnyReportSection,
+    options: SectionQueryOptions = {}
+): ReportQuery<TypedReportResult<string, string>> {
+    let query: ReportQuery<TypedReportResult<string, string>> = section.query(options.period);
+    if (options.filter) query = withDimensionFilter(query, options.filter);
+    if (section.pageable && options.page !== undefined) query = withPage(query, options.page, sectionTopN(section));
+    return query;
+}
+
+/**
+ * Section có thể chia nhỏ theo breakdown hay không (bỏ qua khi section đã nhóm theo chính dimension đó)
+ */
+export function supportsBreakdown(section: AnyReportSection, breakdown: ReportBreakdown): boolean {
+    return !section.query().request.dimensions.some(dimension => dimension.name === breakdown.dimension);
+}
+
+/**
+ * Danh sách section có thể đăng ký thêm, gỡ bỏ và sắp xếp lại
+ */
+export class ReportSectionRegistry {
+    private sections = new Map<string, AnyReportSection>();
+
+    constructor(sections: AnyReportSection[] = []) {
+        sections.forEach(section => this.add(section));
+    }
+
+    /**
+     * Đăng ký section (ghi đè nếu trùng id)
+     */
+    register<T extends TypedReportResult<string, string>>(section: ReportSection<T>): this {
+        return this.add(section);
+    }
+
+    unregister(id: string): boolean {
+        return this.sections.delete(id);
+    }
+
+    get(id: string): AnyReportSection | undefined {
+        return this.sections.get(id);
+    }
+
+    /**
+     * Sắp xếp lại theo danh sách id; section không có trong danh sách giữ thứ tự cũ và đứng sau
+     */
+    reorder(ids: string[]): this {
+        const rest = this.list().filter(section => !ids.includes(section.id));
+        [...ids.map(id => this.require(id)), ...rest].forEach((section, index) => {
+            this.sections.set(section.id, { ...section, order: index });
+        });
+        return this;
+    }
+
+    /**
+     * Danh sách section theo thứ tự
+     */
+    list(): AnyReportSection[] {
+        return Array.from(this.sections.values()).sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    }
+
+    /**
+     * Chọn các section theo id, giữ đúng thứ tự của danh sách id truyền vào
+     */
+    select(ids?: string[]): AnyReportSection[] {
+        return ids ? ids.map(id => this.require(id)) : this.list();
+    }
+
+    /**
+     * Tạo registry mới chứa bản sao các section hiện tại
+     */
+    clone(): ReportSectionRegistry {
+        return new ReportSectionRegistry(this.list());
+    }
+
+    private require(id: string): AnyReportSection {
+        const section = this.sections.get(id);
+        if (!section) {
+            throw new Error(`Unknown report section "${id}". Registered: ${Array.from(this.sections.keys()).join(', ')}`);
+        }
+        return section;
+    }
+
+    private add(section: AnyReportSection): this {
+        const order = section.order ?? this.sections.get(section.id)?.order ?? this.nextOrder();
+        this.sections.set(section.id, { ...section, order });
+        return this;
+    }
+
+    private nextOrder(): number {
+        return this.sections.size === 0 ? 0 : Math.max(...this.list().map(section => section.order ?? 0)) + 1;
+    }
+}
+
+/**
+ * Dựng phần nội dung của một section (không gồm tiêu đề)
+ * @param data Kết quả truy vấn của chính section
+ */
+export function renderSection(
+    section: AnyReportSection,
+    data: TypedReportResult<string, string>,
+    t: Translator = getTranslator()
+): string {
+    if (!data || !data.rows || data.rows.length === 0) {
+        return `- ${t.t('common.noData')}\n`;
+    }
+    // Dữ liệu lấy từ query của section nên khớp kiểu dữ liệu mà format của section nhận
+    const format = section.format as ReportSection['format'];
+    return format(data, { topN: sectionTopN(section), t });
+}
+
+/**
+ * Vẽ biểu đồ PNG của section (undefined nếu section không có biểu đồ hoặc không có dữ liệu)
+ */
+export function renderSectionChart(
+    section: AnyReportSection,
+    data: TypedReportResult<string, string>,
+    t: Translator = getTranslator()
+): Buffer | undefined {
+    if (!section.chart || !data || !data.rows || data.rows.length === 0) return undefined;
+
+    const { type, dimension, metrics, limit } = section.chart;
+    return renderChart(type, chartDataFromReport(data, dimension, metrics, limit), {
+        title: t.t(section.title),
+        otherLabel: t.t('chart.other')
+    });
+}
+
+// ==== FORMATTERS MẶC ĐỊNH ====
+
+/**
+ * Định dạng báo cáo người dùng theo quốc gia
+ */
+export function formatCountryReport(data: TypedReportResult<string, string>, { topN, t }: SectionContext): string {
+    let result = '';
+    let total = 0;
+
+    for (const row of data.rows.slice(0, topN)) {
+        const users = Number(row.totalUsers);
+        total += users;
+        result += `- ${escapeHtml(row.country)}: ${t.t('unit.users', { count: users })} (${t.t('unit.sessions', { count: Number(row.sessions) })})\n`;
+    }
+
+    if (data.rows.length > topN) {
+        result += `- <i>${t.t('more.countries', { count: data.rows.length - topN })}</i>\n`;
+    }
+
+    result += `<b>${t.t('common.total', { value: t.t('unit.users', { count: total }) })}</b>\n`;
+    return result;
+}
+
+/**
+ * Định dạng báo cáo phiên theo thiết bị
+ */
+export function formatDeviceReport(data: TypedReportResult<string, string>, { topN, t }: SectionContext): string {
+    let result = '';
+    let total = 0;
+
+    for (const row of data.rows.slice(0, topN)) {
+        const sessions = Number(row.sessions);
+        total += sessions;
+        result += `- ${escapeHtml(row.deviceCategory)}: ${t.t('unit.sessions', { count: sessions })}\n`;
+    }
+
+    result += `<b>${t.t('common.total', { value: t.t('unit.sessions', { count: total }) })}</b>\n`;
+    return result;
+}
+
+/**
+ * Định dạng báo cáo trang phổ biến
+ */
+export function formatPagesReport(data: TypedReportResult<string, string>, { topN, t }: SectionContext): string {
+    let result = '';
+    const durationHeader = data.metricHeaders.find(header => header.name === 'userEngagementDuration');
+
+    for (const row of data.rows.slice(0, topN)) {
+        const path = String(row.pagePath);
+        const pagePath = path.length > 30
+            ? path.substring(0, 27) + '...'
+            : path;
+        const views = Number(row.screenPageViews);
+        const duration = t.number(metricValueInSeconds(
+            Number(row.userEngagementDuration),
+            durationHeader?.type || 'TYPE_SECONDS'
+        ), { minimumFractionDigits: 1, maximumFractionDigits: 1 });
+
+        result += `- ${escapeHtml(pagePath)}: ${t.t('unit.views', { count: views })} (${duration}s)\n`;
+    }
+
+    if (data.rows.length > topN) {
+        result += `- <i>${t.t('more.pages', { count: data.rows.length - topN })}</i>\n`;
+    }
+
+    return result;
+}
+
+/**
+ * Định dạng báo cáo chuyển đổi theo nguồn
+ */
+export function formatConversionsReport(data: TypedReportResult<string, string>, { topN, t }: SectionContext): string {
+    let result = '';
+
+    for (const row of data.rows.slice(0, topN)) {
+        const sourceMedium = String(row.sourceMedium);
+        const source = sourceMedium.length > 25
+            ? sourceMedium.substring(0, 22) + '...'
+            : sourceMedium;
+        result += `- ${escapeHtml(source)}: ${t.t('unit.conversions', { count: Number(row.conversions) })}\n`;
+    }
+
+    if (data.rows.length > topN) {
+        result += `- <i>${t.t('more.sources', { count: data.rows.length - topN })}</i>\n`;
+    }
+
+    return result;
+}
+
+// Mức thay đổi so với kỳ trước, ví dụ " (▲ 12.5%)"; rỗng khi kỳ trước bằng 0
+function formatChange(current: number, previous: number, t: Translator): string {
+    if (previous <= 0) return '';
+
+    const change = (current - previous) / previous;
+    return ` (${change >= 0 ? '▲' : '▼'} ${t.percent(Math.abs(change))})`;
+}
+
+/**
+ * Định dạng báo cáo so sánh lưu lượng
+ */
+export function formatComparisonReport(data: TypedReportResult<string, string>, { t }: SectionContext): string {
+    if (data.data.length < 2) return `- ${t.t('comparison.notEnoughData')}\n`;
+
+    // data giữ thứ tự cố định [Hôm nay, Hôm qua] bất kể thứ tự dòng GA4 trả về
+    const today = Number(data.data[0].totalUsers);
+    const yesterday = Number(data.data[1].totalUsers);
+
+    return `- ${t.t('comparison.today')}: ${t.t('unit.sessions', { count: today })}\n`
+        + `- ${t.t('comparison.yesterday')}: ${t.t('unit.sessions', { count: yesterday })}${formatChange(today, yesterday, t)}\n`;
+}
+
+/**
+ * Định dạng so sánh tuần này với tuần trước theo kênh (dữ liệu của thisWeekVsLastWeekQuery)
+ */
+export function formatWeekComparisonReport(data: TypedReportResult<string, string>, { topN, t }: SectionContext): string {
+    // Dạng cũ: totalUsers = tuần trước, newUsers = tuần này
+    const rows = data.data
+        .map(row => ({ name: row.country, lastWeek: Number(row.totalUsers), thisWeek: Number(row.newUsers) }))
+        .sort((a, b) => b.thisWeek - a.thisWeek);
+    if (rows.length === 0) return `- ${t.t('comparison.notEnoughData')}\n`;
+
+    const thisWeek = rows.reduce((sum, row) => sum + row.thisWeek, 0);
+    const lastWeek = rows.reduce((sum, row) => sum + row.lastWeek, 0);
+
+    let result = `- ${t.t('comparison.thisWeek')}: ${t.t('unit.sessions', { count: thisWeek })}\n`;
+    result += `- ${t.t('comparison.lastWeek')}: ${t.t('unit.sessions', { count: lastWeek })}${formatChange(thisWeek, lastWeek, t)}\n`;
+
+    for (const row of rows.slice(0, topN)) {
+        result += `  · ${escapeHtml(row.name)}: ${t.number(row.thisWeek)}${formatChange(row.thisWeek, row.lastWeek, t)}\n`;
+    }
+
+    return result;
+}
+
+/**
+ * Định dạng xu hướng phiên theo ngày: tổng, trung bình và ngày cao nhất
+ */
+export function formatSessionsTrendReport(data: TypedReportResult<string, string>, { t }: SectionContext): string {
+    const { labels, series } = chartDataFromReport(data, 'date', 'sessions');
+    const values = series[0].values;
+    const total = values.reduce((sum, value) => sum + value, 0);
+    const peak = values.indexOf(Math.max(...values));
+
+    let result = `- ${t.t('common.total', { value: t.t('unit.sessions', { count: total }) })}\n`;
+    result += `- ${t.t('trend.average', { value: t.t('unit.sessions', { count: Math.round(total / values.length) }) })}\n`;
+    result += `- ${t.t('trend.peak', { date: labels[peak], value: t.t('unit.sessions', { count: values[peak] }) })}\n`;
+    return result;
+}
+
+/**
+ * Section xu hướng phiên theo ngày kèm biểu đồ đường (không nằm trong báo cáo mặc định)
+ * @param days Số ngày gần nhất
+ */
+export function createSessionsTrendSection(days: number = 30): ReportSection<TypedReportResult<'date', string>> {
+    return {
+        id: 'sessionsTrend',
+        title: 'section.sessionsTrend',
+        query: () => dailyTrendQuery('sessions', days),
+        format: formatSessionsTrendReport,
+        chart: { type: 'line', dimension: 'date', metrics: 'sessions' }
+    };
+}
+
+/**
+ * Section so sánh tuần này với tuần trước theo kênh (không nằm trong báo cáo mặc định)
+ */
+export function createWeekComparisonSection(): ReportSection<TypedReportResult<string, string>> {
+    return {
+        id: 'weekComparison',
+        title: 'section.weekComparison',
+        query: () => thisWeekVsLastWeekQuery('sessionDefaultChannelGroup', 'sessions'),
+        format: formatWeekComparisonReport
+    };
+}
+
+// ==== SECTION MẶC ĐỊNH CỦA BÁO CÁO HÀNG NGÀY ====
+
+export const DEFAULT_SECTION_IDS = ['usersByCountry', 'deviceSessions', 'topPages', 'sourceConversions', 'trafficComparison'];
+
+/**
+ * Tạo registry với 5 section mặc định của báo cáo hàng ngày
+ */
+export function createDefaultSectionRegistry(): ReportSectionRegistry {
+    return new ReportSectionRegistry([
+        {
+            id: 'usersByCountry',
+            title: 'section.usersByCountry',
+            pageable: true,
+            periodTitle: 'section.usersByCountry.period',
+            query: period => usersByCountryQuery(period?.startDate, period?.endDate),
+            format: formatCountryReport,
+            chart: { type: 'bar', dimension: 'country', metrics: 'totalUsers', limit: 8 }
+        },
+        {
+            id: 'deviceSessions',
+            title: 'section.deviceSessions',
+            periodTitle: 'section.deviceSessions.period',
+            query: period => sessionsByDeviceCategoryQuery(period?.startDate, period?.endDate),
+            format: formatDeviceReport,
+            // Hiển thị tất cả loại thiết bị
+            topN: 10,
+            chart: { type: 'pie', dimension: 'deviceCategory', metrics: 'sessions' }
+        },
+        {
+            id: 'topPages',
+            title: 'section.topPages',
+            pageable: true,
+            periodTitle: 'section.topPages.period',
+            query: period => popularPagesWithEngagementQuery(period?.startDate ?? '7daysAgo', period?.endDate, 5),
+            format: formatPagesReport,
+            attachment: {
+                format: 'csv',
+                query: period => popularPagesWithEngagementQuery(period?.startDate ?? '7daysAgo', period?.endDate, ATTACHMENT_ROW_LIMIT)
+            }
+        },
+        {
+            id: 'sourceConversions',
+            title: 'section.sourceConversions',
+            pageable: true,
+            periodTitle: 'section.sourceConversions.period',
+            query: period => conversionsBySourceMediumQuery(period?.startDate ?? '7daysAgo', period?.endDate, 5),
+            format: formatConversionsReport,
+            attachment: {
+                format: 'csv',
+                query: period => conversionsBySourceMediumQuery(period?.startDate ?? '7daysAgo', period?.endDate, ATTACHMENT_ROW_LIMIT)
+            }
+        },
+        {
+            id: 'trafficComparison',
+            title: 'section.trafficComparison',
+            query: () => todayVsYesterdayQuery('sessions'),
+            format: formatComparisonReport
+        }
+    ]);
+}
@@ -0,0 +1,98 @@
+import { MemorySchedulerStateStore, ReportScheduler, ScheduledJob } from "./scheduler";
+
+const NOW = new Date('2024-05-10T12:30:00Z');
+
+describe('ReportScheduler', () => {
+    let store: MemorySchedulerStateStore;
+    let scheduler: ReportScheduler;
+
+    beforeEach(() => {
+        jest.useFakeTimers({ now: NOW });
+        store = new MemorySchedulerStateStore();
+        scheduler = new ReportScheduler({ timeZone: 'UTC', store });
+    });
+
+    afterEach(async () => {
+        await scheduler.stop();
+        jest.useRealTimers();
+    });
+
+    const addHourlyJob = (options: Partial<ScheduledJob> = {}) => {
+        const run = jest.fn(async () => true);
+        scheduler.addJob({ id: 'hourly', cron: '0 * * * *', run, ...options });
+        return run;
+    };
+
+    it('lần khởi động đầu tiên chỉ ghi mốc, không chạy', async () => {
+        const run = addHourlyJob({ missed: 'catch-up' });
+
+        await scheduler.start();
+
+        expect(run).not.toHaveBeenCalled();
+        expect(scheduler.getState('hourly')).toEqual({ lastScheduledAt: NOW.toISOString() });
+        expect(scheduler.getNextRun('hourly')).toEqual(new Date('2024-05-10T13:00:00Z'));
+    });
+
+    it('mặc định bỏ qua các lần bị lỡ', async () => {
+        store.set('hourly', { lastScheduledAt: '2024-05-10T08:00:00.000Z' });
+        const run = addHourlyJob();
+
+        await scheduler.start();
+
+        expect(run).not.toHaveBeenCalled();
+        expect(scheduler.getState('hourly')?.lastScheduledAt).toBe('2024-05-10T12:00:00.000Z');
+    });
+
+    it('catch-up chạy bù một lần cho lần bị lỡ gần nhất', async () => {
+        store.set('hourly', { lastScheduledAt: '2024-05-10T08:00:00.000Z' });
+        const run = addHourlyJob({ missed: 'catch-up' });
+
+        await scheduler.start();
+        await scheduler.stop();
+
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(scheduler.getState('hourly')).toMatchObject({
+            lastScheduledAt: '2024-05-10T12:00:00.000Z',
+            lastStatus: 'success'
+        });
+    });
+
+    it('không chạy bù khi lần bị lỡ đã quá catchUpWithin', async () => {
+        store.set('hourly', { lastScheduledAt: '2024-05-10T08:00:00.000Z' });
+        const run = addHourlyJob({ missed: 'catch-up', catchUpWithin: '15m' });
+
+        await scheduler.start();
+
+        expect(run).not.toHaveBeenCalled();
+        expect(scheduler.getState('hourly')?.lastScheduledAt).toBe('2024-05-10T12:00:00.000Z');
+    });
+
+    it('chạy theo lịch và ghi nhận job thất bại', async () => {
+        const run = jest.fn(async () => false);
+        addHourlyJob({ run });
+        await scheduler.start();
+
+        await jest.advanceTimersByTimeAsync(30 * 60 * 1000);
+
+        expect(scheduler.getState('hourly')).toMatchObject({
+            lastScheduledAt: '2024-05-10T13:00:00.000Z',
+            lastStatus: 'failed'
+        });
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(scheduler.getNextRun('hourly')).toEqual(new Date('2024-05-10T14:00:00Z'));
+    });
+
+    it('không chạy chồng job đang chạy', async () => {
+        let finish!: () => void;
+        const run = jest.fn(() => new Promise<boolean>(resolve => { finish = () => resolve(true); }));
+        addHourlyJob({ run });
+
+        const first = scheduler.runNow('hourly');
+        expect(scheduler.isRunning('hourly')).toBe(true);
+        await expect(scheduler.runNow('hourly')).resolves.toBe(false);
+
+        finish();
+        await expect(first).resolves.toBe(true);
+        expect(run).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,336 @@
+import { logger } from "./utils/logger";
+import { CronSchedule, isValidTimeZone, nextCronTime, parseCron } from "./utils/cron";
+import { JsonFileStore } from "./utils/json-file-store";
+import { parseDuration } from "./utils/periods";
+
+// Xử lý các lần chạy bị lỡ khi scheduler không hoạt động (tắt máy, khởi động lại...)
+export type MissedRunPolicy = 'skip' | 'catch-up';
+
+/**
+ * Công việc chạy định kỳ theo cron
+ */
+export interface ScheduledJob {
+    id: string;
+    // Biểu thức cron 5 trường (phút giờ ngày tháng thứ) hoặc macro như @daily
+    cron: string;
+    // Trả về false được ghi nhận là thất bại (như sendDailyGAInsights)
+    run: () => Promise<unknown>;
+    // Múi giờ IANA riêng của job (mặc định múi giờ của scheduler)
+    timeZone?: string;
+    // 'skip' (mặc định) bỏ qua lần bị lỡ; 'catch-up' chạy bù một lần khi khởi động
+    missed?: MissedRunPolicy;
+    // Chỉ chạy bù nếu lần bị lỡ gần nhất chưa quá khoảng này: số phút hoặc 30m, 6h, 1d (mặc định 1d)
+    catchUpWithin?: string | number;
+    // Tắt tạm thời mà không xóa job
+    enabled?: boolean;
+}
+
+// Trạng thái của một job giữa các lần khởi động
+export interface ScheduledJobState {
+    // Lần chạy theo lịch gần nhất đã được xử lý (chạy hoặc bỏ qua), ISO
+    lastScheduledAt?: string;
+    lastStartedAt?: string;
+    lastFinishedAt?: string;
+    lastStatus?: 'success' | 'failed';
+    lastError?: string;
+}
+
+/**
+ * Nơi lưu trạng thái job để khởi động lại không gửi trùng
+ */
+export interface SchedulerStateStore {
+    get(jobId: string): ScheduledJobState | undefined;
+    set(jobId: string, state: ScheduledJobState): void;
+}
+
+export class MemorySchedulerStateStore implements SchedulerStateStore {
+    private states = new Map<string, ScheduledJobState>();
+
+    get(jobId: string): ScheduledJobState | undefined {
+        return this.states.get(jobId);
+    }
+
+    set(jobId: string, state: ScheduledJobState): void {
+        this.states.set(jobId, state);
+    }
+}
+
+/**
+ * Lưu trạng thái job vào file JSON
+ */
+export class FileSchedulerStateStore extends JsonFileStore<ScheduledJobState> implements SchedulerStateStore {}
+
+export interface ReportSchedulerOptions {
+    // Múi giờ IANA mặc định của các job, ví dụ 'Asia/Ho_Chi_Minh'
+    timeZone?: string;
+    // Lấy múi giờ khi start() nếu không truyền timeZone (ví dụ múi giờ của property GA4)
+    resolveTimeZone?: () => Promise<string>;
+    // Nơi lưu trạng thái (ưu tiên hơn stateFile)
+    store?: SchedulerStateStore;
+    // File JSON lưu trạng thái (mặc định chỉ lưu trong bộ nhớ)
+    stateFile?: string;
+}
+
+interface RegisteredJob {
+    job: ScheduledJob;
+    schedule: CronSchedule;
+}
+
+const DEFAULT_CATCH_UP_WITHIN = '1d';
+// setTimeout chỉ nhận tối đa ~24.8 ngày
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// Giới hạn số lần bị lỡ được duyệt khi khởi động (cron mỗi phút sau thời gian dài tắt máy)
+const MAX_MISSED_SCAN = 10000;
+
+/**
+ * Chạy báo cáo, cảnh báo, xuất dữ liệu... theo cron trong một múi giờ.
+ * Một job không chạy chồng lên lần chạy trước của chính nó; lần chạy đã xử lý được lưu lại
+ * để khởi động lại không chạy trùng
+ */
+export class ReportScheduler {
+    private jobs = new Map<string, RegisteredJob>();
+    private timers = new Map<string, NodeJS.Timeout>();
+    private nextRuns = new Map<string, Date>();
+    private running = new Map<string, Promise<boolean>>();
+    private store: SchedulerStateStore;
+    private timeZone?: string;
+    private resolveTimeZone?: () => Promise<string>;
+    private started = false;
+
+    constructor(options: ReportSchedulerOptions = {}) {
+        if (options.timeZone && !isValidTimeZone(options.timeZone)) {
+            throw new Error(`Invalid time zone "${options.timeZone}"`);
+        }
+        this.timeZone = options.timeZone;
+        this.resolveTimeZone = options.resolveTimeZone;
+        this.store = options.store
+            || (options.stateFile ? new FileSchedulerStateStore(options.stateFile) : new MemorySchedulerStateStore());
+    }
+
+    /**
+     * Thêm job; nếu scheduler đang chạy thì job được lên lịch ngay
+     * @throws Error nếu trùng id, cron hoặc múi giờ không hợp lệ
+     */
+    addJob(job: ScheduledJob): this {
+        if (this.jobs.has(job.id)) {
+            throw new Error(`Scheduled job "${job.id}" already exists`);
+        }
+        if (job.timeZone && !isValidTimeZone(job.timeZone)) {
+            throw new Error(`Invalid time zone "${job.timeZone}" for job "${job.id}"`);
+        }
+        if (job.catchUpWithin !== undefined) parseDuration(job.catchUpWithin);
+
+        this.jobs.set(job.id, { job, schedule: parseCron(job.cron) });
+        if (this.started) this.activate(job.id);
+        return this;
+    }
+
+    removeJob(jobId: string): boolean {
+        this.clearTimer(jobId);
+        return this.jobs.delete(jobId);
+    }
+
+    getJobs(): ScheduledJob[] {
+        return Array.from(this.jobs.values()).map(({ job }) => job);
+    }
+
+    /**
+     * Múi giờ mặc định (sau khi start() đã xác định múi giờ của property)
+     */
+    getTimeZone(): string | undefined {
+        return this.timeZone;
+    }
+
+    getNextRun(jobId: string): Date | undefined {
+        return this.nextRuns.get(jobId);
+    }
+
+    getState(jobId: string): ScheduledJobState | undefined {
+        return this.store.get(jobId);
+    }
+
+    isRunning(jobId: string): boolean {
+        return this.running.has(jobId);
+    }
+
+    /**
+     * Xác định múi giờ, xử lý các lần chạy bị lỡ theo chính sách của từng job rồi lên lịch
+     */
+    async start(): Promise<void> {
+        if (this.started) return;
+
+        if (!this.timeZone) {
+            this.timeZone = await this.detectTimeZone();
+        }
+        this.started = true;
+        logger.info(`Scheduler đã khởi động với ${this.jobs.size} job, múi giờ ${this.timeZone}`);
+
+        for (const jobId of this.jobs.keys()) {
+            this.activate(jobId);
+        }
+    }
+
+    /**
+     * Dừng lên lịch; chờ các job đang chạy kết thúc
+     */
+    async stop(): Promise<void> {
+        this.started = false;
+        for (const jobId of Array.from(this.timers.keys())) {
+            this.clearTimer(jobId);
+        }
+        await Promise.all(this.running.values());
+    }
+
+    /**
+     * Chạy job ngay, ngoài lịch (không ảnh hưởng lần chạy theo lịch)
+     * @returns false nếu job thất bại hoặc đang chạy
+     */
+    async runNow(jobId: string): Promise<boolean> {
+        const registered = this.jobs.get(jobId);
+        if (!registered) throw new Error(`Scheduled job "${jobId}" not found`);
+        return this.execute(registered.job);
+    }
+
+    private async detectTimeZone(): Promise<string> {
+        const fallback = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+        if (!this.resolveTimeZone) return fallback;
+
+        try {
+            return await this.resolveTimeZone();
+        } catch (error) {
+            logger.warn(`Không lấy được múi giờ, dùng múi giờ hệ thống ${fallback}:`, (error as Error).message);
+            return fallback;
+        }
+    }
+
+    private jobTimeZone(job: ScheduledJob): string {
+        return job.timeZone || this.timeZone || 'UTC';
+    }
+
+    private activate(jobId: string): void {
+        const registered = this.jobs.get(jobId);
+        if (!registered || registered.job.enabled === false) return;
+
+        this.handleMissedRuns(registered);
+        this.scheduleNext(registered);
+    }
+
+    /**
+     * Tìm lần chạy bị lỡ kể từ lần đã xử lý gần nhất và chạy bù hoặc bỏ qua
+     */
+    private handleMissedRuns({ job, schedule }: RegisteredJob): void {
+        const now = Date.now();
+        const state = this.store.get(job.id);
+
+        // Lần đầu chạy: chỉ ghi mốc, các lần trước thời điểm này không tính là bị lỡ
+        if (!state?.lastScheduledAt) {
+            this.store.set(job.id, { ...state, lastScheduledAt: new Date(now).toISOString() });
+            return;
+        }
+
+        const timeZone = this.jobTimeZone(job);
+        let latest: Date | undefined;
+        let count = 0;
+        for (let time = nextCronTime(schedule, new Date(state.lastScheduledAt), timeZone);
+            time.getTime() <= now && count < MAX_MISSED_SCAN;
+            time = nextCronTime(schedule, time, timeZone)) {
+            latest = time;
+            count++;
+        }
+        if (!latest) return;
+
+        const within = parseDuration(job.catchUpWithin ?? DEFAULT_CATCH_UP_WITHIN);
+        if (job.missed === 'catch-up' && now - latest.getTime() <= within) {
+            logger.info(`Job ${job.id}: lỡ ${count} lần chạy, chạy bù lần ${latest.toISOString()}`);
+            void this.trigger(job, latest);
+            return;
+        }
+
+        logger.info(`Job ${job.id}: bỏ qua ${count} lần chạy bị lỡ (gần nhất ${latest.toISOString()})`);
+        this.store.set(job.id, { ...state, lastScheduledAt: latest.toISOString() });
+    }
+
+    private scheduleNext(registered: RegisteredJob): void {
+        const { job, schedule } = registered;
+        this.clearTimer(job.id);
+        if (!this.started || job.enabled === false) return;
+
+        const next = nextCronTime(schedule, new Date(), this.jobTimeZone(job));
+        this.nextRuns.set(job.id, next);
+
+        const wait = () => {
+            const delay = next.getTime() - Date.now();
+            if (delay > 0) {
+                // Lịch xa hơn giới hạn của setTimeout thì chờ nhiều chặng
+                this.timers.set(job.id, setTimeout(wait, Math.min(delay, MAX_TIMEOUT_MS)));
+                return;
+            }
+
+            void this.trigger(job, next);
+            if (this.jobs.get(job.id) === registered) this.scheduleNext(registered);
+        };
+        wait();
+    }
+
+    private clearTimer(jobId: string): void {
+        const timer = this.timers.get(jobId);
+        if (timer) clearTimeout(timer);
+        this.timers.delete(jobId);
+        this.nextRuns.delete(jobId);
+    }
+
+    /**
+     * Chạy một lần theo lịch, trừ khi lần chạy trước chưa xong hoặc lần này đã được xử lý
+     */
+    private async trigger(job: ScheduledJob, scheduledAt: Date): Promise<boolean> {
+        if (this.running.has(job.id)) {
+            logger.warn(`Job ${job.id}: lần chạy trước chưa xong, bỏ qua lần ${scheduledAt.toISOString()}`);
+            return false;
+        }
+
+        const state = this.store.get(job.id);
+        if (state?.lastScheduledAt && Date.parse(state.lastScheduledAt) >= scheduledAt.getTime()) {
+            logger.info(`Job ${job.id}: lần ${scheduledAt.toISOString()} đã được xử lý, bỏ qua`);
+            return false;
+        }
+
+        return this.execute(job, scheduledAt);
+    }
+
+    private async execute(job: ScheduledJob, scheduledAt?: Date): Promise<boolean> {
+        if (this.running.has(job.id)) {
+            logger.warn(`Job ${job.id} đang chạy, bỏ qua`);
+            return false;
+        }
+
+        const run = (async () => {
+            // Ghi nhận trước khi chạy để tiến trình bị dừng giữa chừng không gửi lại khi khởi động
+            const state: ScheduledJobState = { ...this.store.get(job.id), lastStartedAt: new Date().toISOString() };
+            if (scheduledAt) state.lastScheduledAt = scheduledAt.toISOString();
+            this.store.set(job.id, state);
+
+            logger.info(`Đang chạy job ${job.id}...`);
+            let success: boolean;
+            try {
+                success = (await job.run()) !== false;
+                state.lastError = undefined;
+            } catch (error) {
+                logger.error(`Job ${job.id} thất bại:`, error);
+                success = false;
+                state.lastError = (error as Error).message;
+            }
+
+            state.lastStatus = success ? 'success' : 'failed';
+            state.lastFinishedAt = new Date().toISOString();
+            this.store.set(job.id, state);
+            return success;
+        })();
+
+        this.running.set(job.id, run);
+        try {
+            return await run;
+        } finally {
+            this.running.delete(job.id);
+        }
+    }
+}
@@ -0,0 +1,278 @@
+import { Context, Telegraf, TelegramError } from 'telegraf';
+import { SocksProxyAgent } from 'socks-proxy-agent';
+import { logger } from "./utils/logger";
+import { DigestSendOptions, GAInsightsService } from "./ga-insights.service";
+import { parseTelegramDestination } from "./telegram.service";
+import { AnyReportSection, createWeekComparisonSection, REPORT_BREAKDOWNS } from "./report-sections";
+import { getTranslator, Translator } from "./i18n";
+import { escapeHtml, InlineKeyboardMarkup } from "./utils/telegram-message";
+import { parsePeriod, PERIOD_SYNTAX, ReportPeriod } from "./utils/periods";
+import { ALL_SECTIONS_SCOPE, decodeReportView, REPORT_CALLBACK_PREFIX } from "./utils/report-keyboard";
+import { describeError } from "./errors";
+import 'dotenv/config';
+
+// Tùy chọn kết nối Bot API của telegraf (agent, apiRoot...)
+type TelegramClientOptions = NonNullable<Telegraf.Options<Context>['telegram']>;
+
+// Cấu hình webhook; không khai báo thì bot dùng long polling
+export interface TelegramBotWebhookOptions {
+    // Tên miền công khai, ví dụ 'bot.example.com'
+    domain: string;
+    // Đường dẫn nhận update (mặc định do telegraf sinh ngẫu nhiên)
+    path?: string;
+    // Cổng HTTP lắng nghe (mặc định 3000)
+    port?: number;
+    // Secret Telegram gửi kèm trong header để xác thực request
+    secretToken?: string;
+}
+
+export interface TelegramBotOptions {
+    // Token của bot (mặc định TELEGRAM_BOT_TOKEN)
+    token?: string;
+    // Chỉ trả lời các chat này (mặc định chat trong TELEGRAM_CHAT_ID); danh sách rỗng = trả lời mọi chat
+    allowedChatIds?: (string | number)[];
+    // Ngôn ngữ trả lời (mặc định theo GAInsightsService)
+    locale?: string;
+    webhook?: TelegramBotWebhookOptions;
+}
+
+// Lệnh xem một section với khoảng thời gian tùy chọn, ví dụ /pages 7d
+const SECTION_COMMANDS: Record<string, string> = {
+    pages: 'topPages',
+    sources: 'sourceConversions',
+    devices: 'deviceSessions'
+};
+
+const COMMANDS = ['today', 'yesterday', 'pages', 'sources', 'devices', 'compare', 'help'];
+
+/**
+ * Bot Telegram trả lời báo cáo GA4 theo lệnh: /today, /yesterday, /pages 7d, /sources, /devices, /compare week.
+ * Báo cáo có bàn phím chọn khoảng thời gian, trang và breakdown; bấm nút sẽ sửa lại chính tin nhắn đó
+ */
+export class TelegramBotService {
+    private bot: Telegraf;
+    private insights: GAInsightsService;
+    private allowedChatIds: string[];
+    private locale?: string;
+    private webhook?: TelegramBotWebhookOptions;
+
+    constructor(insights: GAInsightsService, options: TelegramBotOptions = {}) {
+        const token = options.token || process.env.TELEGRAM_BOT_TOKEN || '';
+        if (!token) {
+            throw new Error('Telegram bot token not configured');
+        }
+
+        this.insights = insights;
+        this.locale = options.locale;
+        this.webhook = options.webhook;
+        // TELEGRAM_CHAT_ID có thể ở dạng chatId_topicId
+        const defaultChatId = parseTelegramDestination(process.env.TELEGRAM_CHAT_ID || '').chatId;
+        this.allowedChatIds = (options.allowedChatIds ?? (defaultChatId ? [defaultChatId] : [])).map(String);
+        // Báo lỗi ngay nếu locale chưa được đăng ký
+        if (this.locale) getTranslator(this.locale);
+
+        this.bot = new Telegraf(token, { telegram: this.createTelegramOptions() });
+        this.registerHandlers();
+    }
+
+    private createTelegramOptions(): TelegramClientOptions {
+        const options: TelegramClientOptions = {};
+        if (process.env.USE_PROXY !== 'true' || !process.env.SOCKS5_PROXY_URL) return options;
+
+        try {
+            // SocksProxyAgent là http.Agent, chỉ khác chữ ký getName() trong typings của agent-base
+            options.agent = new SocksProxyAgent(process.env.SOCKS5_PROXY_URL) as unknown as TelegramClientOptions['agent'];
+            logger.info('Bot dùng SOCKS5 proxy:', process.env.SOCKS5_PROXY_URL);
+        } catch (error) {
+            logger.error('Không cấu hình được SOCKS5 proxy, dùng kết nối trực tiếp:', error);
+        }
+
+        return options;
+    }
+
+    /**
+     * Instance telegraf, dùng để thêm lệnh riêng hoặc gắn webhook vào server có sẵn
+     */
+    getBot(): Telegraf {
+        return this.bot;
+    }
+
+    /**
+     * Khởi động bot (webhook nếu có cấu hình, ngược lại long polling)
+     * @returns Promise hoàn thành khi bot đã sẵn sàng nhận lệnh
+     */
+    async launch(): Promise<void> {
+        const t = this.translator();
+        await this.bot.telegram.setMyCommands(COMMANDS.map(command => ({
+            command,
+            description: t.t(`bot.command.${command}`)
+        })));
+
+        const config = this.webhook
+            ? { webhook: { domain: this.webhook.domain, path: this.webhook.path, port: this.webhook.port ?? 3000, secretToken: this.webhook.secretToken } }
+            : {};
+
+        await new Promise<void>((resolve, reject) => {
+            // launch() chỉ resolve khi bot dừng, nên dùng callback onLaunch để biết bot đã chạy
+            this.bot.launch(config, () => resolve()).catch(reject);
+        });
+        logger.info(`Bot Telegram đã khởi động (${this.webhook ? 'webhook' : 'long polling'})`);
+    }
+
+    /**
+     * Dừng bot
+     */
+    stop(reason?: string): void {
+        this.bot.stop(reason);
+    }
+
+    private translator(): Translator {
+        return getTranslator(this.locale || this.insights.getLocale());
+    }
+
+    private registerHandlers(): void {
+        // Bỏ qua chat không được phép
+        this.bot.use(async (ctx, next) => {
+            const chatId = ctx.chat?.id;
+            if (this.allowedChatIds.length > 0 && (chatId === undefined || !this.allowedChatIds.includes(String(chatId)))) {
+                logger.warn(`Bỏ qua update từ chat không được phép: ${chatId}`);
+                return;
+            }
+            await next();
+        });
+
+        this.bot.start(ctx => this.replyHelp(ctx));
+        this.bot.help(ctx => this.replyHelp(ctx));
+
+        this.bot.command('today', ctx => this.replyDigest(ctx, this.insights.getSections().list(), { period: parsePeriod('today') }));
+        this.bot.command('yesterday', ctx => this.replyDigest(ctx, this.insights.getSections().list(), { period: parsePeriod('yesterday') }));
+
+        for (const [command, sectionId] of Object.entries(SECTION_COMMANDS)) {
+            this.bot.command(command, async ctx => {
+                const period = await this.parsePeriodArgument(ctx, ctx.payload);
+                if (period === null) return;
+                await this.replyDigest(ctx, this.insights.getSections().select([sectionId]), { period, page: 0 });
+            });
+        }
+
+        this.bot.command('compare', async ctx => {
+            const section = this.comparisonSection(ctx.payload.trim().toLowerCase() || 'day');
+            if (!section) {
+                await ctx.reply(this.translator().t('bot.invalidCompare'), { parse_mode: 'HTML' });
+                return;
+            }
+            await this.replyDigest(ctx, [section], { keyboard: false });
+        });
+
+        // Nút bấm của bàn phím điều hướng
+        this.bot.action(new RegExp(`^${REPORT_CALLBACK_PREFIX}:`), ctx => this.handleReportCallback(ctx, ctx.match.input));
+
+        this.bot.catch((error, ctx) => {
+            logger.error(`Lỗi khi xử lý update ${ctx.update.update_id}:`, error);
+        });
+    }
+
+    private comparisonSection(type: string): AnyReportSection | undefined {
+        const sections = this.insights.getSections();
+        if (type === 'day') return sections.get('trafficComparison');
+        if (type === 'week') return sections.get('weekComparison') ?? createWeekComparisonSection();
+        return undefined;
+    }
+
+    /**
+     * Parse tham số khoảng thời gian; trả lời hướng dẫn và trả về null nếu sai cú pháp
+     */
+    private async parsePeriodArgument(ctx: Context, argument: string): Promise<ReportPeriod | undefined | null> {
+        if (!argument.trim()) return undefined;
+
+        try {
+            return parsePeriod(argument);
+        } catch {
+            await ctx.reply(this.translator().t('bot.invalidPeriod', { syntax: escapeHtml(PERIOD_SYNTAX) }), { parse_mode: 'HTML' });
+            return null;
+        }
+    }
+
+    private async replyHelp(ctx: Context): Promise<void> {
+        await ctx.reply(this.translator().t('bot.help', { syntax: escapeHtml(PERIOD_SYNTAX) }), { parse_mode: 'HTML' });
+    }
+
+    private async replyDigest(ctx: Context, sections: AnyReportSection[], options: DigestSendOptions = {}): Promise<void> {
+        const t = this.translator();
+        try {
+            await ctx.sendChatAction('typing');
+            const { messages, keyboard } = await this.insights.buildDigest(sections, { keyboard: true, ...options, locale: t.locale });
+            await this.replyMessages(ctx, messages, keyboard);
+        } catch (error) {
+            logger.error('Lỗi khi trả lời lệnh của bot:', error);
+            await ctx.reply(t.t('report.error', { message: escapeHtml(describeError(error, t)) }), { parse_mode: 'HTML' });
+        }
+    }
+
+    private async replyMessages(ctx: Context, messages: string[], keyboard?: InlineKeyboardMarkup): Promise<void> {
+        for (const [index, message] of messages.entries()) {
+            const isLast = index === messages.length - 1;
+            await ctx.reply(message, { parse_mode: 'HTML', reply_markup: isLast ? keyboard : undefined });
+        }
+    }
+
+    /**
+     * Dựng lại báo cáo theo trạng thái trong nút bấm và sửa tin nhắn chứa nút
+     */
+    private async handleReportCallback(ctx: Context, data: string): Promise<void> {
+        const t = this.translator();
+        const view = decodeReportView(data);
+        const sections = view && this.resolveScope(view.scope);
+        const breakdown = view?.breakdown ? REPORT_BREAKDOWNS.find(item => item.id === view.breakdown) : undefined;
+
+        let period: ReportPeriod | undefined;
+        try {
+            period = view?.period ? parsePeriod(view.period) : undefined;
+        } catch {
+            period = undefined;
+        }
+
+        if (!view || !sections || (view.breakdown && !breakdown) || (view.period && !period)) {
+            await ctx.answerCbQuery(t.t('keyboard.expired'));
+            return;
+        }
+
+        // Trả lời callback ngay để Telegram tắt biểu tượng chờ trên nút
+        await ctx.answerCbQuery();
+        try {
+            const { messages, keyboard } = await this.insights.buildDigest(sections, {
+                locale: t.locale,
+                period,
+                page: view.page,
+                breakdown,
+                keyboard: true
+            });
+            await this.editMessages(ctx, messages, keyboard);
+        } catch (error) {
+            logger.error('Lỗi khi xử lý nút bấm của bot:', error);
+            await ctx.reply(t.t('report.error', { message: escapeHtml(describeError(error, t)) }), { parse_mode: 'HTML' });
+        }
+    }
+
+    private resolveScope(scope: string): AnyReportSection[] | undefined {
+        const sections = this.insights.getSections();
+        if (scope === ALL_SECTIONS_SCOPE) return sections.list();
+
+        const section = sections.get(scope);
+        return section ? [section] : undefined;
+    }
+
+    /**
+     * Sửa tin nhắn hiện tại thành phần đầu của báo cáo; phần còn lại (nếu quá dài) gửi thành tin nhắn mới
+     */
+    private async editMessages(ctx: Context, messages: string[], keyboard?: InlineKeyboardMarkup): Promise<void> {
+        const [first, ...rest] = messages;
+        try {
+            await ctx.editMessageText(first, { parse_mode: 'HTML', reply_markup: rest.length === 0 ? keyboard : undefined });
+        } catch (error) {
+            // Bấm lại đúng trạng thái đang hiển thị: nội dung không đổi
+            if (!(error instanceof TelegramError && error.description.includes('message is not modified'))) throw error;
+        }
+        await this.replyMessages(ctx, rest, keyboard);
+    }
+}
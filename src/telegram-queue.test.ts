@@ -0,0 +1,96 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { TelegramSendQueue } from "./telegram-queue";
+import { TelegramApiError } from "./errors";
+
+const ok = (data: unknown = { ok: true }) => ({ data } as AxiosResponse);
+const httpError = (status: number, data: unknown = {}) =>
+    new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', undefined, undefined, { status, data } as AxiosResponse);
+
+describe('TelegramSendQueue', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('chờ retry_after khi bị 429 rồi gửi lại', async () => {
+        const queue = new TelegramSendQueue({ perChatPerSecond: 100, maxDelayMs: 200 });
+        const attempts: number[] = [];
+        const request = jest.fn(async () => {
+            attempts.push(Date.now());
+            if (attempts.length === 1) {
+                throw httpError(429, { ok: false, error_code: 429, description: 'Too Many Requests: retry after 5', parameters: { retry_after: 5 } });
+            }
+            return ok();
+        });
+
+        await expect(queue.send('1', 'sendMessage', request)).resolves.toEqual(ok());
+
+        expect(request).toHaveBeenCalledTimes(2);
+        // retry_after (5s) bị giới hạn bởi maxDelayMs
+        expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(190);
+        expect(queue.getSummary()).toEqual({ delivered: 1, dropped: 0, retried: 1, failures: [] });
+    });
+
+    it('chỉ tạm dừng chat bị 429, chat khác vẫn được gửi', async () => {
+        const queue = new TelegramSendQueue({ perChatPerSecond: 100, maxDelayMs: 200 });
+        const order: string[] = [];
+        let limited = true;
+
+        const first = queue.send('1', 'first', async () => {
+            if (limited) {
+                limited = false;
+                throw httpError(429, { parameters: { retry_after: 1 } });
+            }
+            order.push('1');
+            return ok();
+        });
+        const second = queue.send('2', 'second', async () => {
+            order.push('2');
+            return ok();
+        });
+
+        await Promise.all([first, second]);
+        expect(order).toEqual(['2', '1']);
+    });
+
+    it('bỏ request lỗi 4xx ngay, không thử lại', async () => {
+        const queue = new TelegramSendQueue();
+        const error = httpError(400, { ok: false, error_code: 400, description: 'Bad Request: chat not found' });
+        const request = jest.fn(async () => { throw error; });
+
+        await expect(queue.send('-100', 'sendMessage', request)).rejects.toBe(error);
+
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(queue.getSummary()).toEqual({
+            delivered: 0,
+            dropped: 1,
+            retried: 0,
+            failures: [{ chatId: '-100', label: 'sendMessage', reason: '400 Bad Request: chat not found', attempts: 1 }]
+        });
+    });
+
+    it('dùng retryAfter của TelegramApiError', async () => {
+        const queue = new TelegramSendQueue({ perChatPerSecond: 100, maxDelayMs: 200 });
+        const request = jest.fn()
+            .mockRejectedValueOnce(new TelegramApiError(429, 'Too Many Requests: retry after 3', { retryAfter: 3 }))
+            .mockResolvedValueOnce(ok());
+
+        await expect(queue.send('1', 'sendMessage', request)).resolves.toEqual(ok());
+        expect(request).toHaveBeenCalledTimes(2);
+        expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('429 Too Many Requests: retry after 3'));
+    });
+
+    it('bỏ request sau maxRetries lần thử lại', async () => {
+        const queue = new TelegramSendQueue({ perChatPerSecond: 100, maxRetries: 2, baseDelayMs: 5 });
+        const request = jest.fn(async () => { throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }); });
+
+        await expect(queue.send('1', 'sendMessage', request)).rejects.toThrow('socket hang up');
+
+        expect(request).toHaveBeenCalledTimes(3);
+        expect(queue.getSummary()).toMatchObject({ dropped: 1, retried: 2 });
+        await queue.onIdle();
+    });
+});
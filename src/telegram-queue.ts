@@ -0,0 +1,274 @@
+import axios, { AxiosResponse } from 'axios';
+import { TelegramApiError } from './errors';
+
+export interface TelegramQueueOptions {
+    // Max requests per second across all chats (Telegram allows about 30)
+    globalPerSecond?: number;
+    // Max requests per second to a single chat (Telegram allows about 1)
+    perChatPerSecond?: number;
+    // Max requests per minute to a single group or channel (Telegram allows about 20)
+    perGroupPerMinute?: number;
+    // Retries after the first attempt for 429, 5xx and network errors
+    maxRetries?: number;
+    // First backoff delay for 5xx and network errors; doubled on each retry
+    baseDelayMs?: number;
+    // Upper bound for a single backoff or retry_after wait
+    maxDelayMs?: number;
+}
+
+export interface TelegramDeliveryFailure {
+    chatId: string;
+    label: string;
+    reason: string;
+    attempts: number;
+}
+
+export interface TelegramDeliverySummary {
+    delivered: number;
+    dropped: number;
+    // Extra attempts made after 429, 5xx or network errors
+    retried: number;
+    failures: TelegramDeliveryFailure[];
+}
+
+interface QueuedRequest {
+    chatId: string;
+    label: string;
+    request: () => Promise<AxiosResponse>;
+    attempts: number;
+    notBefore: number;
+    resolve: (response: AxiosResponse) => void;
+    reject: (error: unknown) => void;
+}
+
+const DEFAULT_OPTIONS: Required<TelegramQueueOptions> = {
+    globalPerSecond: 30,
+    perChatPerSecond: 1,
+    perGroupPerMinute: 20,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 60000
+};
+
+// Network errors that are worth retrying
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE', 'ERR_NETWORK'];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// What is known about a failed request, whatever the request function threw
+interface RequestFailure {
+    status?: number;
+    code?: string;
+    retryAfter?: number;
+    description?: string;
+    message: string;
+}
+
+function toRequestFailure(error: unknown): RequestFailure {
+    if (error instanceof TelegramApiError) {
+        return { status: error.errorCode, retryAfter: error.retryAfter, description: error.description, message: error.message };
+    }
+    if (axios.isAxiosError(error)) {
+        const data = error.response?.data as { description?: string; parameters?: { retry_after?: number } } | undefined;
+        return {
+            status: error.response?.status,
+            code: error.code,
+            retryAfter: data?.parameters?.retry_after,
+            description: data?.description,
+            message: error.message
+        };
+    }
+    if (error instanceof Error) {
+        return { code: (error as NodeJS.ErrnoException).code, message: error.message };
+    }
+    return { message: String(error) };
+}
+
+/**
+ * Send queue for Telegram Bot API requests.
+ * Requests run one at a time, respecting global, per-chat and per-group limits; requests to the same
+ * chat keep their order. 429 responses wait for `retry_after`, 5xx and network errors are retried
+ * with exponential backoff, other errors are dropped immediately.
+ */
+export class TelegramSendQueue {
+    private options: Required<TelegramQueueOptions>;
+    private pending: QueuedRequest[] = [];
+    private processing = false;
+    private idleWaiters: (() => void)[] = [];
+    // Timestamps of recent requests, globally and per chat
+    private globalHistory: number[] = [];
+    private chatHistory = new Map<string, number[]>();
+    // Chats paused by a 429 response
+    private pausedUntil = new Map<string, number>();
+    private summary: TelegramDeliverySummary = { delivered: 0, dropped: 0, retried: 0, failures: [] };
+
+    constructor(options: TelegramQueueOptions = {}) {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * Queue a request
+     * @param chatId - Target chat, used for per-chat limits and ordering
+     * @param label - Short description used in logs and the delivery summary
+     * @param request - Performs the HTTP call; may be called several times
+     * @returns The successful response; rejects with the last error if the request was dropped
+     */
+    send(chatId: string, label: string, request: () => Promise<AxiosResponse>): Promise<AxiosResponse> {
+        return new Promise((resolve, reject) => {
+            this.pending.push({ chatId, label, request, attempts: 0, notBefore: 0, resolve, reject });
+            void this.process();
+        });
+    }
+
+    /**
+     * Resolve once every queued request has been delivered or dropped
+     */
+    onIdle(): Promise<void> {
+        if (!this.processing && this.pending.length === 0) return Promise.resolve();
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    get size(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Delivered vs. dropped counts since the queue was created or last reset
+     */
+    getSummary(): TelegramDeliverySummary {
+        return { ...this.summary, failures: [...this.summary.failures] };
+    }
+
+    resetSummary(): void {
+        this.summary = { delivered: 0, dropped: 0, retried: 0, failures: [] };
+    }
+
+    private async process(): Promise<void> {
+        if (this.processing) return;
+        this.processing = true;
+
+        try {
+            while (this.pending.length > 0) {
+                const now = Date.now();
+                const { task, readyAt } = this.nextTask(now);
+                if (!task) {
+                    await sleep(Math.max(readyAt - now, 1));
+                    continue;
+                }
+
+                this.record(task.chatId, now);
+                await this.attempt(task);
+            }
+        } finally {
+            this.processing = false;
+            this.idleWaiters.splice(0).forEach(resolve => resolve());
+        }
+    }
+
+    /**
+     * The first request that may be sent now; otherwise the earliest time one becomes ready
+     */
+    private nextTask(now: number): { task?: QueuedRequest; readyAt: number } {
+        const globalReadyAt = this.readyAt(this.globalHistory, this.options.globalPerSecond, 1000, now);
+        const seen = new Set<string>();
+        let earliest = Infinity;
+
+        for (const task of this.pending) {
+            // Only the oldest request of each chat is eligible, so messages stay in order
+            if (seen.has(task.chatId)) continue;
+            seen.add(task.chatId);
+
+            const readyAt = Math.max(globalReadyAt, task.notBefore, this.chatReadyAt(task.chatId, now));
+            if (readyAt <= now) {
+                this.pending.splice(this.pending.indexOf(task), 1);
+                return { task, readyAt };
+            }
+            earliest = Math.min(earliest, readyAt);
+        }
+
+        return { readyAt: earliest };
+    }
+
+    private chatReadyAt(chatId: string, now: number): number {
+        const history = this.chatHistory.get(chatId) || [];
+        let readyAt = Math.max(
+            this.pausedUntil.get(chatId) || 0,
+            this.readyAt(history, this.options.perChatPerSecond, 1000, now)
+        );
+
+        // Group and channel IDs are negative
+        if (chatId.startsWith('-')) {
+            readyAt = Math.max(readyAt, this.readyAt(history, this.options.perGroupPerMinute, 60000, now));
+        }
+        return readyAt;
+    }
+
+    // Sliding window: ready when fewer than `limit` requests happened in the last `windowMs`
+    private readyAt(history: number[], limit: number, windowMs: number, now: number): number {
+        const recent = history.filter(time => time > now - windowMs);
+        return recent.length < limit ? now : recent[recent.length - limit] + windowMs;
+    }
+
+    private record(chatId: string, now: number): void {
+        this.globalHistory = [...this.globalHistory.filter(time => time > now - 1000), now];
+        const history = (this.chatHistory.get(chatId) || []).filter(time => time > now - 60000);
+        this.chatHistory.set(chatId, [...history, now]);
+    }
+
+    private async attempt(task: QueuedRequest): Promise<void> {
+        task.attempts++;
+        try {
+            const response = await task.request();
+            this.summary.delivered++;
+            task.resolve(response);
+        } catch (error) {
+            const failure = toRequestFailure(error);
+            const delay = this.retryDelay(failure, task);
+            if (delay === undefined || task.attempts > this.options.maxRetries) {
+                this.drop(task, error, failure);
+                return;
+            }
+
+            this.summary.retried++;
+            console.warn(`⏳ Telegram ${task.label} to ${task.chatId} failed (${this.describe(failure)}), retrying in ${(delay / 1000).toFixed(1)}s`);
+            task.notBefore = Date.now() + delay;
+            // Back to the front so it keeps its place before later messages to the same chat
+            this.pending.unshift(task);
+        }
+    }
+
+    /**
+     * Wait before retrying, or undefined if the error is not retryable
+     */
+    private retryDelay(failure: RequestFailure, task: QueuedRequest): number | undefined {
+        const { status } = failure;
+
+        if (status === 429) {
+            const retryAfter = Number(failure.retryAfter) || 1;
+            const delay = Math.min(retryAfter * 1000, this.options.maxDelayMs);
+            this.pausedUntil.set(task.chatId, Date.now() + delay);
+            return delay;
+        }
+
+        if ((status !== undefined && status >= 500) || (status === undefined && RETRYABLE_ERROR_CODES.includes(failure.code ?? ''))) {
+            const backoff = this.options.baseDelayMs * 2 ** (task.attempts - 1);
+            // Jitter spreads out retries from several services hitting the same outage
+            return Math.min(backoff * (0.5 + Math.random() / 2), this.options.maxDelayMs);
+        }
+
+        return undefined;
+    }
+
+    private drop(task: QueuedRequest, error: unknown, failure: RequestFailure): void {
+        const reason = this.describe(failure);
+        this.summary.dropped++;
+        this.summary.failures.push({ chatId: task.chatId, label: task.label, reason, attempts: task.attempts });
+        task.reject(error);
+    }
+
+    private describe({ status, description, code, message }: RequestFailure): string {
+        if (description) return `${status} ${description}`;
+        if (status) return `HTTP ${status}`;
+        return code || message;
+    }
+}
@@ -0,0 +1,94 @@
+import { parseTelegramDestination, TelegramDestination, TelegramService } from "./telegram.service";
+
+// Mức độ nghiêm trọng của cảnh báo
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * Quy tắc định tuyến: các section / mức cảnh báo được gửi tới một chat (hoặc topic) riêng
+ */
+export interface TelegramRoute {
+    // Id section được gửi tới đích này
+    sections?: string[];
+    // Mức cảnh báo được gửi tới đích này
+    severities?: AlertSeverity[];
+    // "chatId", "chatId_topicId" hoặc TelegramDestination
+    destination: string | number | TelegramDestination;
+}
+
+// Nhóm section cùng đích gửi
+export interface RoutedSections<T extends { id: string }> {
+    telegram: TelegramService;
+    sections: T[];
+}
+
+/**
+ * Chọn TelegramService theo section hoặc mức cảnh báo; không khớp quy tắc nào thì dùng đích mặc định.
+ * Quy tắc khai báo trước được ưu tiên
+ */
+export class TelegramRouter {
+    private defaultService: TelegramService;
+    private routes: TelegramRoute[];
+    // Mỗi đích dùng chung một instance (chung kết nối với service mặc định)
+    private services = new Map<string, TelegramService>();
+
+    constructor(defaultService: TelegramService, routes: TelegramRoute[] = []) {
+        this.defaultService = defaultService;
+        this.routes = routes;
+    }
+
+    getDefault(): TelegramService {
+        return this.defaultService;
+    }
+
+    getRoutes(): TelegramRoute[] {
+        return [...this.routes];
+    }
+
+    /**
+     * Thêm quy tắc định tuyến (ưu tiên thấp hơn các quy tắc đã có)
+     */
+    addRoute(route: TelegramRoute): this {
+        this.routes.push(route);
+        return this;
+    }
+
+    forSection(sectionId: string): TelegramService {
+        return this.resolve(this.routes.find(route => route.sections?.includes(sectionId)));
+    }
+
+    forSeverity(severity: AlertSeverity): TelegramService {
+        return this.resolve(this.routes.find(route => route.severities?.includes(severity)));
+    }
+
+    /**
+     * Chia section theo đích gửi, giữ nguyên thứ tự section trong mỗi nhóm;
+     * nhóm của đích mặc định (nếu có) đứng đầu
+     */
+    groupSections<T extends { id: string }>(sections: T[]): RoutedSections<T>[] {
+        const groups = new Map<TelegramService, T[]>();
+        for (const section of sections) {
+            const telegram = this.forSection(section.id);
+            groups.set(telegram, [...(groups.get(telegram) || []), section]);
+        }
+
+        return Array.from(groups.entries())
+            .map(([telegram, group]) => ({ telegram, sections: group }))
+            .sort((a, b) => Number(b.telegram === this.defaultService) - Number(a.telegram === this.defaultService));
+    }
+
+    private resolve(route?: TelegramRoute): TelegramService {
+        if (!route) return this.defaultService;
+
+        const { chatId, topicId } = parseTelegramDestination(route.destination);
+        const key = topicId ? `${chatId}_${topicId}` : chatId;
+        const current = this.defaultService.getDestination();
+        if (chatId === current.chatId && topicId === current.topicId) return this.defaultService;
+
+        let service = this.services.get(key);
+        if (!service) {
+            service = this.defaultService.withDestination({ chatId, topicId });
+            this.services.set(key, service);
+        }
+        return service;
+    }
+}
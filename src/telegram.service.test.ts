@@ -0,0 +1,43 @@
+import { AxiosInstance } from 'axios';
+import { TelegramService } from "./telegram.service";
+import { TelegramApiError } from "./errors";
+
+const rejectingClient = () => ({
+    post: jest.fn(async () => ({ status: 200, data: { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' } }))
+}) as unknown as AxiosInstance;
+
+describe('TelegramService', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('mặc định trả về false và giữ lỗi trong getLastError()', async () => {
+        const service = new TelegramService({ token: '123:abc', chatId: '42' }, rejectingClient());
+
+        await expect(service.sendMessage('Hello')).resolves.toBe(false);
+        expect(service.getLastError()).toBeInstanceOf(TelegramApiError);
+        expect(service.getLastError()).toMatchObject({ errorCode: 403, method: 'sendMessage' });
+    });
+
+    it('throwOnError ném TelegramApiError, kể cả với withDestination', async () => {
+        const service = new TelegramService({ token: '123:abc', chatId: '42', throwOnError: true }, rejectingClient());
+
+        await expect(service.sendMessage('Hello')).rejects.toBeInstanceOf(TelegramApiError);
+        await expect(service.withDestination('-100_7').sendMessage('Hello')).rejects.toMatchObject({
+            errorCode: 403,
+            description: 'Forbidden: bot was blocked by the user'
+        });
+    });
+
+    it('throwOnError ném lỗi khi chưa cấu hình', async () => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const service = new TelegramService({ token: '', chatId: '', throwOnError: true });
+
+        await expect(service.sendDocument(Buffer.from('a,b'))).rejects.toThrow('Telegram bot token or chat ID not configured');
+    });
+});
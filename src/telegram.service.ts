@@ -1,23 +1,121 @@
 import axios, { AxiosInstance } from 'axios';
 import { SocksProxyAgent } from 'socks-proxy-agent';
 import 'dotenv/config';
+import { InlineKeyboardMarkup, splitMessage, TelegramParseMode } from './utils/telegram-message';
+import { TelegramDeliverySummary, TelegramQueueOptions, TelegramSendQueue } from './telegram-queue';
+import { NetworkError, TelegramApiError, ToolkitError } from './errors';
+
+// Telegram limits for photo captions and albums
+const CAPTION_LIMIT = 1024;
+const MEDIA_GROUP_MAX = 10;
+
+// A chat, optionally narrowed to a forum topic (message_thread_id)
+export interface TelegramDestination {
+    chatId: string;
+    topicId?: string;
+}
+
+export interface TelegramServiceOptions {
+    // Bot token (defaults to TELEGRAM_BOT_TOKEN)
+    token?: string;
+    // Chat ID, or "chatId_topicId" for a forum topic (defaults to TELEGRAM_CHAT_ID)
+    chatId?: string | number;
+    // Forum topic ID; overrides a topic given in chatId
+    topicId?: string | number;
+    // Default parse mode for messages and captions (defaults to 'HTML')
+    parseMode?: TelegramParseMode;
+    // SOCKS5 proxy URL, or false for a direct connection
+    // (defaults to SOCKS5_PROXY_URL when USE_PROXY=true)
+    proxy?: string | false;
+    // Rate limits and retries, or a queue shared with other services using the same bot
+    queue?: TelegramSendQueue | TelegramQueueOptions;
+    // Reject with the TelegramApiError/NetworkError/ToolkitError instead of resolving to false.
+    // Defaults to false: the send methods keep returning false and getLastError() tells why
+    throwOnError?: boolean;
+}
+
+/**
+ * Parse a destination in the "chatId" or "chatId_topicId" format
+ */
+export function parseTelegramDestination(value: string | number | TelegramDestination): TelegramDestination {
+    if (typeof value === 'object') {
+        return { chatId: String(value.chatId), topicId: value.topicId ? String(value.topicId) : undefined };
+    }
+
+    const [chatId, topicId] = String(value).split('_');
+    return { chatId, topicId: topicId || undefined };
+}
+
+export interface TelegramPhoto {
+    // PNG/JPEG content, or a file_id / URL already known to Telegram
+    photo: Buffer | string;
+    caption?: string;
+    filename?: string;
+}
+
+// Body of a failed Bot API response
+interface TelegramErrorResponse {
+    error_code?: number;
+    description?: string;
+    parameters?: { retry_after?: number };
+}
+
+/**
+ * Convert a rejected Bot API request into a typed error
+ */
+function toTelegramError(error: unknown, method: string): ToolkitError {
+    if (error instanceof ToolkitError) return error;
+    if (!axios.isAxiosError(error)) {
+        return new ToolkitError(`Telegram ${method} failed: ${(error as Error)?.message ?? String(error)}`, { cause: error });
+    }
+
+    if (error.response) {
+        const data = error.response.data as TelegramErrorResponse | undefined;
+        return new TelegramApiError(
+            Number(data?.error_code ?? error.response.status),
+            data?.description || error.response.statusText || error.message,
+            { cause: error, method, retryAfter: data?.parameters?.retry_after }
+        );
+    }
+    return new NetworkError(`Telegram ${method} failed: ${error.code || error.message}`, { cause: error, code: error.code });
+}
 
 export class TelegramService {
     private axiosInstance: AxiosInstance;
+    private options: TelegramServiceOptions;
     private botToken: string;
     private chatId: string;
-    private useProxy: boolean;
+    private topicId?: string;
+    private parseMode: TelegramParseMode;
+    private proxyUrl?: string;
+    private queue: TelegramSendQueue;
+    private lastError?: ToolkitError;
+
+    /**
+     * @param options - Token, destination, parse mode, proxy and rate limits; unset values are read from the environment
+     * @param axiosInstance - Shared HTTP client (used internally by withDestination)
+     */
+    constructor(options: TelegramServiceOptions = {}, axiosInstance?: AxiosInstance) {
+        this.options = options;
+        this.botToken = options.token || process.env.TELEGRAM_BOT_TOKEN || '';
 
-    constructor() {
-        this.botToken = process.env.TELEGRAM_BOT_TOKEN || '';
-        this.chatId = process.env.TELEGRAM_CHAT_ID || '';
-        this.useProxy = process.env.USE_PROXY === 'true';
+        const destination = parseTelegramDestination(options.chatId ?? process.env.TELEGRAM_CHAT_ID ?? '');
+        this.chatId = destination.chatId;
+        this.topicId = (options.topicId !== undefined ? String(options.topicId) : destination.topicId) || undefined;
+        this.parseMode = options.parseMode || 'HTML';
+
+        if (options.proxy !== undefined) {
+            this.proxyUrl = options.proxy || undefined;
+        } else if (process.env.USE_PROXY === 'true') {
+            this.proxyUrl = process.env.SOCKS5_PROXY_URL || undefined;
+        }
 
         if (!this.botToken || !this.chatId) {
             console.warn('⚠️ Telegram bot token or chat ID not configured');
         }
 
-        this.axiosInstance = this.createAxiosInstance();
+        this.queue = options.queue instanceof TelegramSendQueue ? options.queue : new TelegramSendQueue(options.queue);
+        this.axiosInstance = axiosInstance || this.createAxiosInstance();
     }
 
     private createAxiosInstance(): AxiosInstance {
@@ -29,12 +127,12 @@ export class TelegramService {
         };
 
         // Configure SOCKS5 proxy if enabled
-        if (this.useProxy && process.env.SOCKS5_PROXY_URL) {
+        if (this.proxyUrl) {
             try {
-                const proxyAgent = new SocksProxyAgent(process.env.SOCKS5_PROXY_URL);
+                const proxyAgent = new SocksProxyAgent(this.proxyUrl);
                 config.httpAgent = proxyAgent;
                 config.httpsAgent = proxyAgent;
-                console.log('🔗 Using SOCKS5 proxy for Telegram:', process.env.SOCKS5_PROXY_URL);
+                console.log('🔗 Using SOCKS5 proxy for Telegram:', this.proxyUrl);
             } catch (error) {
                 console.error('❌ Failed to configure SOCKS5 proxy:', error);
                 console.log('📡 Falling back to direct connection');
@@ -45,48 +143,275 @@ export class TelegramService {
     }
 
     /**
-     * Send a message to Telegram chat
-     * @param message - The message text to send
+     * The chat (and forum topic) this service sends to
+     */
+    getDestination(): TelegramDestination {
+        return { chatId: this.chatId, topicId: this.topicId };
+    }
+
+    /**
+     * Create a service that uses the same bot, parse mode and connection but sends to another chat or topic
+     * @param destination - "chatId", "chatId_topicId" or a TelegramDestination
+     */
+    withDestination(destination: string | number | TelegramDestination): TelegramService {
+        const { chatId, topicId } = parseTelegramDestination(destination);
+        return new TelegramService(
+            { ...this.options, token: this.botToken, chatId, topicId: topicId ?? '', queue: this.queue },
+            this.axiosInstance
+        );
+    }
+
+    /**
+     * Delivered vs. dropped requests of the send queue (shared with services created by withDestination)
+     */
+    getDeliverySummary(): TelegramDeliverySummary {
+        return this.queue.getSummary();
+    }
+
+    /**
+     * Why the most recent failed request failed (TelegramApiError, NetworkError...), e.g. after sendMessage returned false
+     */
+    getLastError(): ToolkitError | undefined {
+        return this.lastError;
+    }
+
+    /**
+     * The send queue, e.g. to wait for pending requests with onIdle()
+     */
+    getQueue(): TelegramSendQueue {
+        return this.queue;
+    }
+
+    /**
+     * Send a message to Telegram chat.
+     * Messages longer than 4096 characters are split into several ordered messages
+     * @param message - The message text to send, or pre-split parts (e.g. TelegramMessageBuilder.build())
      * @param parseMode - Message parse mode (optional)
-     * @returns Promise<boolean> - Success status
+     * @param replyMarkup - Inline keyboard attached to the last part (optional)
+     * @returns Promise<boolean> - Success status (true only if every part was sent)
      */
-    async sendMessage(message: string, parseMode: 'HTML' | 'Markdown' = 'HTML'): Promise<boolean> {
+    async sendMessage(
+        message: string | string[],
+        parseMode: TelegramParseMode = this.parseMode,
+        replyMarkup?: InlineKeyboardMarkup
+    ): Promise<boolean> {
         if (!this.botToken || !this.chatId) {
             console.warn('⚠️ Telegram not configured, skipping message');
-            return false;
+            return this.fail(new ToolkitError('Telegram bot token or chat ID not configured'));
         }
 
+        const parts = (Array.isArray(message) ? message : [message])
+            .flatMap(part => splitMessage(part, parseMode));
+
+        // Send sequentially so the parts arrive in order
+        for (const [index, part] of parts.entries()) {
+            const isLast = index === parts.length - 1;
+            const sent = await this.sendSingleMessage(part, parseMode, isLast ? replyMarkup : undefined);
+            if (!sent) {
+                if (parts.length > 1) {
+                    console.error(`❌ Stopped after part ${index + 1}/${parts.length} failed`);
+                }
+                return false;
+            }
+        }
+
+        return true;
+    }
+
+    private async sendSingleMessage(
+        message: string,
+        parseMode: TelegramParseMode,
+        replyMarkup?: InlineKeyboardMarkup
+    ): Promise<boolean> {
         try {
-            const [chatId, topicId] = this.chatId.split('_');
             const url = `https://api.telegram.org/bot${this.botToken}/sendMessage`;
             const payload = {
-                chat_id: chatId,
-                message_thread_id: topicId,
+                chat_id: this.chatId,
+                message_thread_id: this.topicId,
                 text: message,
                 parse_mode: parseMode,
                 disable_web_page_preview: true,
+                reply_markup: replyMarkup,
             };
 
-            const response = await this.axiosInstance.post(url, payload);
+            const response = await this.queue.send(this.chatId, 'message', () => this.axiosInstance.post(url, payload));
 
             if (response.data.ok) {
                 console.log('✅ Telegram message sent successfully');
                 return true;
             } else {
                 console.error('❌ Telegram API error:', response.data);
-                return false;
+                return this.fail(new TelegramApiError(response.data.error_code, response.data.description, { method: 'sendMessage' }));
             }
         } catch (error: any) {
-            console.error('❌ Failed to send Telegram message:', error.data.description);
+            const telegramError = toTelegramError(error, 'sendMessage');
+            console.error('❌ Failed to send Telegram message:', telegramError.message);
 
             // Log specific error details
-            if (error.code === 'ECONNREFUSED') {
+            if (error?.code === 'ECONNREFUSED') {
                 console.error('🔒 Connection refused - check proxy settings');
-            } else if (error.code === 'ETIMEDOUT') {
+            } else if (error?.code === 'ETIMEDOUT') {
                 console.error('⏰ Request timeout - proxy may be slow');
             }
 
-            return false;
+            return this.fail(telegramError);
+        }
+    }
+
+    /**
+     * Send a photo to Telegram chat
+     * @param photo - Image content (uploaded as multipart) or a file_id / URL
+     * @param caption - Optional caption; captions longer than 1024 characters are sent as a follow-up message
+     * @param parseMode - Caption parse mode (optional)
+     * @param filename - File name used for uploads
+     * @returns Promise<boolean> - Success status
+     */
+    async sendPhoto(
+        photo: Buffer | string,
+        caption?: string,
+        parseMode: TelegramParseMode = this.parseMode,
+        filename: string = 'chart.png'
+    ): Promise<boolean> {
+        if (!this.botToken || !this.chatId) {
+            console.warn('⚠️ Telegram not configured, skipping photo');
+            return this.fail(new ToolkitError('Telegram bot token or chat ID not configured'));
+        }
+
+        const inlineCaption = caption && caption.length <= CAPTION_LIMIT ? caption : undefined;
+        const form = this.createForm();
+        if (typeof photo === 'string') {
+            form.append('photo', photo);
+        } else {
+            form.append('photo', new Blob([photo]), filename);
+        }
+        if (inlineCaption) {
+            form.append('caption', inlineCaption);
+            form.append('parse_mode', parseMode);
+        }
+
+        const sent = await this.postMultipart('sendPhoto', form, 'photo');
+        if (sent && caption && !inlineCaption) {
+            return this.sendMessage(caption, parseMode);
+        }
+        return sent;
+    }
+
+    /**
+     * Send several photos as albums (up to 10 photos per album, sent in order)
+     * @param photos - Photos with optional captions
+     * @param parseMode - Caption parse mode (optional)
+     * @returns Promise<boolean> - Success status (true only if every album was sent)
+     */
+    async sendMediaGroup(photos: TelegramPhoto[], parseMode: TelegramParseMode = this.parseMode): Promise<boolean> {
+        if (!this.botToken || !this.chatId) {
+            console.warn('⚠️ Telegram not configured, skipping media group');
+            return this.fail(new ToolkitError('Telegram bot token or chat ID not configured'));
+        }
+
+        for (let start = 0; start < photos.length; start += MEDIA_GROUP_MAX) {
+            const group = photos.slice(start, start + MEDIA_GROUP_MAX);
+
+            // Telegram requires at least 2 items per album
+            if (group.length === 1) {
+                const [{ photo, caption, filename }] = group;
+                if (!(await this.sendPhoto(photo, caption, parseMode, filename))) return false;
+                continue;
+            }
+
+            const form = this.createForm();
+            const media = group.map((item, index) => {
+                let reference = item.photo as string;
+                if (typeof item.photo !== 'string') {
+                    reference = `attach://photo${index}`;
+                    form.append(`photo${index}`, new Blob([item.photo]), item.filename || `chart-${index + 1}.png`);
+                }
+
+                const caption = item.caption && item.caption.length <= CAPTION_LIMIT ? item.caption : undefined;
+                return caption
+                    ? { type: 'photo', media: reference, caption, parse_mode: parseMode }
+                    : { type: 'photo', media: reference };
+            });
+            form.append('media', JSON.stringify(media));
+
+            if (!(await this.postMultipart('sendMediaGroup', form, 'media group'))) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Send a file (e.g. an exported CSV/XLSX report) to Telegram chat
+     * @param document - File content (uploaded as multipart) or a file_id / URL
+     * @param filename - File name shown in Telegram
+     * @param caption - Optional caption; captions longer than 1024 characters are sent as a follow-up message
+     * @param parseMode - Caption parse mode (optional)
+     * @param mimeType - MIME type of the uploaded content (optional)
+     * @returns Promise<boolean> - Success status
+     */
+    async sendDocument(
+        document: Buffer | string,
+        filename: string = 'report.csv',
+        caption?: string,
+        parseMode: TelegramParseMode = this.parseMode,
+        mimeType?: string
+    ): Promise<boolean> {
+        if (!this.botToken || !this.chatId) {
+            console.warn('⚠️ Telegram not configured, skipping document');
+            return this.fail(new ToolkitError('Telegram bot token or chat ID not configured'));
+        }
+
+        const inlineCaption = caption && caption.length <= CAPTION_LIMIT ? caption : undefined;
+        const form = this.createForm();
+        if (typeof document === 'string') {
+            form.append('document', document);
+        } else {
+            form.append('document', new Blob([document], mimeType ? { type: mimeType } : {}), filename);
+        }
+        if (inlineCaption) {
+            form.append('caption', inlineCaption);
+            form.append('parse_mode', parseMode);
+        }
+
+        const sent = await this.postMultipart('sendDocument', form, 'document');
+        if (sent && caption && !inlineCaption) {
+            return this.sendMessage(caption, parseMode);
+        }
+        return sent;
+    }
+
+    // Remember why the request failed for getLastError(), or throw it when throwOnError is set
+    private fail(error: ToolkitError): false {
+        this.lastError = error;
+        if (this.options.throwOnError) throw error;
+        return false;
+    }
+
+    private createForm(): FormData {
+        const form = new FormData();
+        form.append('chat_id', this.chatId);
+        if (this.topicId) form.append('message_thread_id', this.topicId);
+        return form;
+    }
+
+    private async postMultipart(method: string, form: FormData, label: string): Promise<boolean> {
+        try {
+            const url = `https://api.telegram.org/bot${this.botToken}/${method}`;
+            // Override the default JSON content type so axios sends the form as multipart
+            const response = await this.queue.send(this.chatId, label, () => this.axiosInstance.post(url, form, {
+                headers: { 'Content-Type': 'multipart/form-data' }
+            }));
+
+            if (response.data.ok) {
+                console.log(`✅ Telegram ${label} sent successfully`);
+                return true;
+            } else {
+                console.error('❌ Telegram API error:', response.data);
+                return this.fail(new TelegramApiError(response.data.error_code, response.data.description, { method }));
+            }
+        } catch (error) {
+            const telegramError = toTelegramError(error, method);
+            console.error(`❌ Failed to send Telegram ${label}:`, telegramError.message);
+            return this.fail(telegramError);
         }
     }
 
@@ -97,7 +422,7 @@ export class TelegramService {
     async testConnection(message?: string): Promise<boolean> {
         if (!this.botToken) {
             console.warn('⚠️ No Telegram bot token configured');
-            return false;
+            return this.fail(new ToolkitError('Telegram bot token not configured'));
         }
 
         try {
@@ -110,18 +435,12 @@ export class TelegramService {
                 return true;
             } else {
                 console.error('❌ Telegram connection test failed:', response.data);
-                return false;
+                return this.fail(new TelegramApiError(response.data.error_code, response.data.description, { method: 'getMe' }));
             }
         } catch (error: any) {
-            console.error('❌ Telegram connection test error:', error.message);
-            return false;
+            const telegramError = toTelegramError(error, 'getMe');
+            console.error('❌ Telegram connection test error:', telegramError.message);
+            return this.fail(telegramError);
         }
     }
 }
-
-if (require.main === module) {
-    const telegramService = new TelegramService();
-    telegramService.sendMessage('Hello, world!', 'Markdown').then(result => {
-        console.log('Test result:', result);
-    });
-}
\ No newline at end of file
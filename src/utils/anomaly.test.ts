@@ -0,0 +1,77 @@
+import { TypedReport } from "../ga.types";
+import { analyzeSameWeekday, checkAnomaly, yesterdayInTimeZone } from "./anomaly";
+
+describe('checkAnomaly', () => {
+    it('đánh dấu mức giảm mạnh so với baseline', () => {
+        const check = checkAnomaly(400, [1000, 1020, 980, 1000]);
+
+        expect(check.expected).toBe(1000);
+        expect(check.change).toBeCloseTo(-0.6);
+        expect(check.direction).toBe('drop');
+    });
+
+    it('đánh dấu mức tăng mạnh', () => {
+        expect(checkAnomaly(2000, [1000, 1020, 980, 1000]).direction).toBe('spike');
+    });
+
+    it('không đánh dấu dao động nhỏ', () => {
+        expect(checkAnomaly(1050, [1000, 1020, 980, 1000]).direction).toBeUndefined();
+    });
+
+    it('dùng độ lệch chuẩn tối thiểu 5% trung bình khi baseline gần như không đổi', () => {
+        // stdDev = 0 → chia cho 5% của 1000 = 50
+        const check = checkAnomaly(1100, [1000, 1000, 1000]);
+        expect(check.stdDev).toBe(0);
+        expect(check.zScore).toBeCloseTo(2);
+        expect(check.direction).toBeUndefined();
+    });
+
+    it('bỏ qua khi baseline quá nhỏ hoặc quá ít tuần', () => {
+        expect(checkAnomaly(0, [10, 12, 11]).direction).toBeUndefined();
+        expect(checkAnomaly(100, [1000]).direction).toBeUndefined();
+        expect(checkAnomaly(100, [1000], { minWeeks: 1 }).direction).toBe('drop');
+    });
+
+    it('không tính change khi baseline bằng 0', () => {
+        const check = checkAnomaly(5, [0, 0], {}, 'Vietnam');
+        expect(check.change).toBeUndefined();
+        expect(check.segment).toBe('Vietnam');
+    });
+});
+
+describe('analyzeSameWeekday', () => {
+    const history = (values: Record<string, number>): TypedReport<string, string> => ({
+        dimensionHeaders: ['date'],
+        metricHeaders: [{ name: 'sessions', type: 'TYPE_INTEGER' }],
+        rows: Object.entries(values).map(([date, sessions]) => ({ date, sessions })),
+        totals: [],
+        rowCount: Object.keys(values).length
+    });
+
+    it('coi ngày kiểm tra không có dòng nào là 0 và lấy baseline theo ngày đó', () => {
+        // GA4 không trả về dòng cho 20240510 vì sessions giảm hẳn về 0
+        const overall = history({ '20240412': 1000, '20240419': 1020, '20240426': 980, '20240503': 1000, '20240509': 990 });
+        const report = analyzeSameWeekday('sessions', { date: '20240510', weeks: 4 }, overall);
+
+        expect(report?.date).toBe('20240510');
+        expect(report?.baselineDates).toEqual(['20240503', '20240426', '20240419', '20240412']);
+        expect(report?.overall).toMatchObject({ current: 0, expected: 1000, direction: 'drop' });
+    });
+
+    it('tính ngày baseline thiếu dòng là 0', () => {
+        const overall = history({ '20240419': 1000, '20240503': 1000, '20240510': 1000 });
+        const report = analyzeSameWeekday('sessions', { date: '20240510', weeks: 4 }, overall);
+
+        expect(report?.baselineDates).toHaveLength(4);
+        expect(report?.overall.expected).toBe(500);
+    });
+});
+
+describe('yesterdayInTimeZone', () => {
+    it('lấy hôm qua theo múi giờ của property', () => {
+        const now = new Date('2024-05-10T20:00:00Z');
+        expect(yesterdayInTimeZone('UTC', now)).toBe('20240509');
+        expect(yesterdayInTimeZone('Asia/Ho_Chi_Minh', now)).toBe('20240510');
+        expect(yesterdayInTimeZone('America/Los_Angeles', now)).toBe('20240509');
+    });
+});
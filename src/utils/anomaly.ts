@@ -0,0 +1,253 @@
+import { TypedReport } from "../ga.types";
+import { Translator } from "../i18n";
+import { escapeHtml } from "./telegram-message";
+
+export interface AnomalyOptions {
+    // Độ lệch tối thiểu so với baseline, tính theo số độ lệch chuẩn (mặc định 3)
+    zThreshold?: number;
+    // Thay đổi tối thiểu so với trung bình baseline, ví dụ 0.2 = 20% (mặc định 0.2)
+    minChange?: number;
+    // Bỏ qua giá trị dimension có trung bình baseline nhỏ hơn mức này vì quá nhiễu (mặc định 20)
+    minBaseline?: number;
+    // Số tuần tối thiểu có dữ liệu để đánh giá (mặc định 2)
+    minWeeks?: number;
+    // Số giá trị dimension tối đa được liệt kê là nguyên nhân (mặc định 3)
+    maxDrivers?: number;
+}
+
+export type AnomalyDirection = 'spike' | 'drop';
+
+// Kết quả so sánh một giá trị với baseline cùng thứ
+export interface AnomalyCheck {
+    // Giá trị dimension; không có với kiểm tra tổng thể
+    segment?: string;
+    current: number;
+    // Trung bình và độ lệch chuẩn của baseline
+    expected: number;
+    stdDev: number;
+    zScore: number;
+    // Thay đổi so với trung bình baseline (tỷ lệ); undefined khi baseline bằng 0
+    change?: number;
+    // Chỉ có khi thay đổi có ý nghĩa thống kê
+    direction?: AnomalyDirection;
+}
+
+// Giá trị dimension góp phần vào thay đổi của tổng thể
+export interface AnomalyDriver extends AnomalyCheck {
+    segment: string;
+    // Phần của chênh lệch tổng thể do giá trị này gây ra
+    share: number;
+}
+
+export interface AnomalyReport {
+    metric: string;
+    dimension?: string;
+    // Ngày được kiểm tra (YYYYMMDD, theo múi giờ của property)
+    date: string;
+    // Các ngày cùng thứ dùng làm baseline, gần nhất trước
+    baselineDates: string[];
+    overall: AnomalyCheck;
+    // Giá trị dimension có bất thường riêng, thay đổi lớn nhất trước
+    segments: AnomalyCheck[];
+    // Giá trị dimension kéo tổng thể theo hướng bất thường (khi tổng thể bất thường)
+    drivers: AnomalyDriver[];
+}
+
+// Ngày được kiểm tra và số tuần baseline của sameWeekdayHistoryQuery
+export interface SameWeekdayWindow {
+    // Ngày được kiểm tra (YYYYMMDD, theo múi giờ của property), thường là hôm qua
+    date: string;
+    // Số tuần cùng thứ trước đó dùng làm baseline
+    weeks: number;
+}
+
+const DEFAULT_ANOMALY_OPTIONS: Required<AnomalyOptions> = {
+    zThreshold: 3,
+    minChange: 0.2,
+    minBaseline: 20,
+    minWeeks: 2,
+    maxDrivers: 3
+};
+
+// Độ lệch chuẩn tối thiểu (tỷ lệ với trung bình) để baseline quá đều không biến mọi dao động nhỏ thành bất thường
+const MIN_RELATIVE_STD_DEV = 0.05;
+
+/**
+ * Cộng/trừ số ngày cho ngày dạng YYYYMMDD
+ */
+export function shiftGA4Date(date: string, days: number): string {
+    const time = Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8)) + days);
+    return new Date(time).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Chuyển ngày YYYYMMDD (dimension date) sang dạng YYYY-MM-DD của dateRanges
+ */
+export function toDateRangeDate(date: string): string {
+    return `${date.slice(0, 4)}-${date.slice(4, 6)}-${date.slice(6, 8)}`;
+}
+
+/**
+ * Ngày hôm qua (YYYYMMDD) theo múi giờ IANA, ví dụ múi giờ báo cáo của property
+ */
+export function yesterdayInTimeZone(timeZone: string, now: Date = new Date()): string {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(now);
+    const get = (type: string) => parts.find(part => part.type === type)?.value;
+    return shiftGA4Date(`${get('year')}${get('month')}${get('day')}`, -1);
+}
+
+/**
+ * So sánh giá trị hiện tại với các giá trị baseline (cùng thứ các tuần trước)
+ */
+export function checkAnomaly(current: number, baseline: number[], options: AnomalyOptions = {}, segment?: string): AnomalyCheck {
+    const { zThreshold, minChange, minBaseline, minWeeks } = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+
+    const expected = baseline.length > 0 ? baseline.reduce((sum, value) => sum + value, 0) / baseline.length : 0;
+    const variance = baseline.length > 1
+        ? baseline.reduce((sum, value) => sum + (value - expected) ** 2, 0) / (baseline.length - 1)
+        : 0;
+    const stdDev = Math.sqrt(variance);
+    const zScore = (current - expected) / Math.max(stdDev, expected * MIN_RELATIVE_STD_DEV, 1);
+    const change = expected > 0 ? (current - expected) / expected : undefined;
+
+    const check: AnomalyCheck = { current, expected, stdDev, zScore };
+    if (segment !== undefined) check.segment = segment;
+    if (change !== undefined) check.change = change;
+
+    const significant = baseline.length >= minWeeks
+        && expected >= minBaseline
+        && Math.abs(zScore) >= zThreshold
+        && Math.abs(change ?? 0) >= minChange;
+    if (significant) check.direction = zScore > 0 ? 'spike' : 'drop';
+
+    return check;
+}
+
+/**
+ * Phân tích lịch sử của sameWeekdayHistoryQuery: ngày được kiểm tra so với cùng thứ các tuần trước.
+ * GA4 bỏ qua các ngày mà mọi metric bằng 0, nên ngày không có dòng nào được tính là 0
+ * @param window Ngày được kiểm tra và số tuần baseline (khớp với khoảng ngày của query)
+ * @param overall Lịch sử tổng thể (dimension date)
+ * @param segmented Lịch sử theo dimension (date + dimension), nếu cần tìm nguyên nhân
+ * @returns undefined nếu không có dữ liệu
+ */
+export function analyzeSameWeekday(
+    metric: string,
+    window: SameWeekdayWindow,
+    overall: TypedReport<string, string>,
+    segmented?: { dimension: string; report: TypedReport<string, string> },
+    options: AnomalyOptions = {}
+): AnomalyReport | undefined {
+    if (overall.rows.length === 0) return undefined;
+
+    const totals = new Map(overall.rows.map(row => [String(row.date), Number(row[metric]) || 0]));
+    const { date } = window;
+    const baselineDates: string[] = [];
+    for (let week = 1; week <= window.weeks; week++) {
+        baselineDates.push(shiftGA4Date(date, -7 * week));
+    }
+
+    const valueOn = (values: Map<string, number>, day: string) => values.get(day) ?? 0;
+    const report: AnomalyReport = {
+        metric,
+        date,
+        baselineDates,
+        overall: checkAnomaly(valueOn(totals, date), baselineDates.map(day => valueOn(totals, day)), options),
+        segments: [],
+        drivers: []
+    };
+    if (!segmented) return report;
+
+    report.dimension = segmented.dimension;
+    const bySegment = new Map<string, Map<string, number>>();
+    for (const row of segmented.report.rows) {
+        const segment = String(row[segmented.dimension] || '(not set)');
+        const values = bySegment.get(segment) || new Map<string, number>();
+        values.set(String(row.date), Number(row[metric]) || 0);
+        bySegment.set(segment, values);
+    }
+
+    const checks = Array.from(bySegment.entries()).map(([segment, values]) =>
+        checkAnomaly(valueOn(values, date), baselineDates.map(day => valueOn(values, day)), options, segment)
+    );
+    const delta = (check: AnomalyCheck) => check.current - check.expected;
+
+    report.segments = checks
+        .filter(check => check.direction)
+        .sort((a, b) => Math.abs(delta(b)) - Math.abs(delta(a)));
+
+    // Nguyên nhân: các giá trị thay đổi cùng chiều với tổng thể, đóng góp nhiều nhất trước
+    const overallDelta = delta(report.overall);
+    if (report.overall.direction && overallDelta !== 0) {
+        const { maxDrivers } = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+        report.drivers = checks
+            .filter(check => delta(check) / overallDelta > 0)
+            .sort((a, b) => Math.abs(delta(b)) - Math.abs(delta(a)))
+            .slice(0, maxDrivers)
+            .map(check => ({ ...check, segment: check.segment as string, share: delta(check) / overallDelta }));
+    }
+
+    return report;
+}
+
+/**
+ * Có bất thường ở tổng thể hoặc ở ít nhất một giá trị dimension
+ */
+export function hasAnomaly(report: AnomalyReport): boolean {
+    return !!report.overall.direction || report.segments.length > 0;
+}
+
+function formatChange(check: AnomalyCheck, t: Translator): string {
+    if (check.change === undefined) return '';
+    return `${check.change >= 0 ? '▲' : '▼'} ${t.percent(Math.abs(check.change))}`;
+}
+
+function formatSegment(check: AnomalyCheck, t: Translator): string {
+    return t.t('anomaly.segment', {
+        segment: escapeHtml(check.segment || ''),
+        current: check.current,
+        expected: Math.round(check.expected),
+        change: formatChange(check, t)
+    });
+}
+
+/**
+ * Định dạng cảnh báo bất thường (HTML) kèm baseline và các giá trị dimension gây ra thay đổi
+ */
+export function formatAnomalyAlert(report: AnomalyReport, t: Translator): string {
+    const { overall } = report;
+    const date = t.date(
+        new Date(Date.UTC(Number(report.date.slice(0, 4)), Number(report.date.slice(4, 6)) - 1, Number(report.date.slice(6, 8)))),
+        { year: 'numeric', month: 'long', day: 'numeric', weekday: 'long', timeZone: 'UTC' }
+    );
+    const titleKey = overall.direction ? `anomaly.title.${overall.direction}` : 'anomaly.title.segments';
+    const metric = escapeHtml(report.metric);
+
+    let result = `<b>${t.t(titleKey, { metric, date })}</b>\n\n`;
+    result += `- ${t.t('anomaly.actual', { value: overall.current })}${overall.change !== undefined ? ` (${formatChange(overall, t)})` : ''}\n`;
+    result += `- ${t.t('anomaly.expected', {
+        value: Math.round(overall.expected),
+        deviation: Math.round(overall.stdDev),
+        count: report.baselineDates.length
+    })}\n`;
+    result += `- ${t.t('anomaly.zScore', { value: t.number(overall.zScore, { maximumFractionDigits: 1 }) })}\n`;
+
+    const dimension = escapeHtml(report.dimension || '');
+    if (report.drivers.length > 0) {
+        result += `\n${t.t('anomaly.drivers', { dimension })}\n`;
+        for (const driver of report.drivers) {
+            result += `  · ${formatSegment(driver, t)} · ${t.t('anomaly.share', { share: t.percent(driver.share, 0) })}\n`;
+        }
+    }
+
+    // Giá trị bất thường riêng chưa được liệt kê ở trên
+    const others = report.segments.filter(check => !report.drivers.some(driver => driver.segment === check.segment));
+    if (others.length > 0) {
+        result += `\n${t.t('anomaly.segments', { dimension })}\n`;
+        for (const check of others) {
+            result += `  · ${formatSegment(check, t)}\n`;
+        }
+    }
+
+    return result;
+}
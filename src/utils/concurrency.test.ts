@@ -0,0 +1,35 @@
+import { mapWithConcurrency } from "./concurrency";
+
+describe('mapWithConcurrency', () => {
+    it('giới hạn số tác vụ chạy cùng lúc và giữ thứ tự kết quả', async () => {
+        let running = 0;
+        let maxRunning = 0;
+
+        const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            running--;
+            return index * 10;
+        });
+
+        expect(maxRunning).toBe(2);
+        expect(results).toEqual([0, 10, 20, 30, 40].map(value => ({ ok: true, value })));
+    });
+
+    it('lỗi của một tác vụ không làm dừng các tác vụ khác', async () => {
+        const results = await mapWithConcurrency(['a', 'b', 'c'], 3, async item => {
+            if (item === 'b') throw new Error('failed b');
+            if (item === 'c') throw 'plain';
+            return item;
+        });
+
+        expect(results[0]).toEqual({ ok: true, value: 'a' });
+        expect(results[1]).toMatchObject({ ok: false, error: new Error('failed b') });
+        expect(results[2]).toMatchObject({ ok: false, error: new Error('plain') });
+    });
+
+    it('trả về mảng rỗng khi không có phần tử', async () => {
+        expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+    });
+});
@@ -0,0 +1,31 @@
+// Kết quả của một tác vụ: thành công kèm giá trị hoặc thất bại kèm lỗi
+export type SettledResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; error: Error };
+
+/**
+ * Chạy tác vụ cho từng phần tử, tối đa `limit` tác vụ cùng lúc. Lỗi của một tác vụ không làm dừng các tác vụ khác
+ * @returns Kết quả theo đúng thứ tự phần tử
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>
+): Promise<SettledResult<R>[]> {
+    const results: SettledResult<R>[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = { ok: true, value: await task(items[index], index) };
+            } catch (error) {
+                results[index] = { ok: false, error: error instanceof Error ? error : new Error(String(error)) };
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+    return results;
+}
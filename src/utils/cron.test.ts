@@ -0,0 +1,76 @@
+import { nextCronTime, parseCron } from "./cron";
+
+const next = (expression: string, after: string, timeZone?: string) =>
+    nextCronTime(expression, new Date(after), timeZone).toISOString();
+
+describe('parseCron', () => {
+    it('parse danh sách, khoảng, bước, tên và macro', () => {
+        const schedule = parseCron('*/15 9-17 1,15 jan-mar mon-fri');
+
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 2, 3]);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+        expect(parseCron('@daily').hours).toEqual(new Set([0]));
+    });
+
+    it('báo lỗi khi sai cú pháp', () => {
+        expect(() => parseCron('0 8 * *')).toThrow('must have 5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('Invalid minute "60"');
+        expect(() => parseCron('0 0 * foo *')).toThrow('Invalid month "foo"');
+        expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+        expect(() => parseCron('0 0 5-1 * *')).toThrow('Invalid range');
+    });
+});
+
+describe('nextCronTime', () => {
+    it('tính theo giờ địa phương của múi giờ', () => {
+        expect(next('0 8 * * *', '2024-01-01T00:00:00Z', 'Asia/Ho_Chi_Minh')).toBe('2024-01-01T01:00:00.000Z');
+        // Không tính chính thời điểm `after`
+        expect(next('0 8 * * *', '2024-01-01T01:00:00Z', 'Asia/Ho_Chi_Minh')).toBe('2024-01-02T01:00:00.000Z');
+        expect(next('@hourly', '2024-01-01T10:59:30Z')).toBe('2024-01-01T11:00:00.000Z');
+    });
+
+    it('chạy khi khớp ngày HOẶC thứ nếu cả hai trường bị giới hạn', () => {
+        // 01/09/2024 là Chủ nhật; 13/09/2024 là thứ Sáu
+        expect(next('0 0 13 * 5', '2024-09-01T00:00:00Z')).toBe('2024-09-06T00:00:00.000Z');
+        expect(next('0 0 13 * 5', '2024-09-06T00:00:00Z')).toBe('2024-09-13T00:00:00.000Z');
+        expect(next('0 0 10 * 1', '2024-09-01T00:00:00Z')).toBe('2024-09-02T00:00:00.000Z');
+        expect(next('0 0 10 * 1', '2024-09-02T00:00:00Z')).toBe('2024-09-09T00:00:00.000Z');
+        expect(next('0 0 10 * 1', '2024-09-09T00:00:00Z')).toBe('2024-09-10T00:00:00.000Z');
+    });
+
+    it('chỉ xét trường bị giới hạn khi trường còn lại là *', () => {
+        expect(next('0 0 13 * *', '2024-09-01T00:00:00Z')).toBe('2024-09-13T00:00:00.000Z');
+        expect(next('0 0 * * 5', '2024-09-07T00:00:00Z')).toBe('2024-09-13T00:00:00.000Z');
+    });
+
+    it('giữ giờ địa phương qua lần chuyển sang giờ mùa hè', () => {
+        // New York chuyển từ EST (-5) sang EDT (-4) lúc 02:00 ngày 10/03/2024
+        expect(next('0 8 * * *', '2024-03-09T14:00:00Z', 'America/New_York')).toBe('2024-03-10T12:00:00.000Z');
+        expect(next('0 8 * * *', '2024-03-08T14:00:00Z', 'America/New_York')).toBe('2024-03-09T13:00:00.000Z');
+    });
+
+    it('giờ bị bỏ qua khi chuyển sang giờ mùa hè chạy ngay sau khoảng bị bỏ qua', () => {
+        // 02:30 ngày 10/03/2024 không tồn tại ở New York, chạy lúc 03:00 EDT
+        expect(next('30 2 * * *', '2024-03-09T12:00:00Z', 'America/New_York')).toBe('2024-03-10T07:00:00.000Z');
+        expect(next('30 2 * * *', '2024-03-10T07:00:00Z', 'America/New_York')).toBe('2024-03-11T06:30:00.000Z');
+        // Nhiều lần trong khoảng bị bỏ qua chỉ chạy một lần
+        expect(next('*/15 2 * * *', '2024-03-10T07:00:00Z', 'America/New_York')).toBe('2024-03-11T06:00:00.000Z');
+        // Lord Howe chỉ chuyển 30 phút (02:00 → 02:30)
+        expect(next('15 2 * * *', '2024-10-05T12:00:00Z', 'Australia/Lord_Howe')).toBe('2024-10-05T15:30:00.000Z');
+    });
+
+    it('chạy một lần khi giờ địa phương lặp lại lúc hết giờ mùa hè', () => {
+        // 01:30 ngày 03/11/2024 ở New York xảy ra hai lần: 05:30Z (EDT) và 06:30Z (EST)
+        const first = next('30 1 * * *', '2024-11-03T00:00:00Z', 'America/New_York');
+        expect(first).toBe('2024-11-03T05:30:00.000Z');
+        expect(next('30 1 * * *', first, 'America/New_York')).toBe('2024-11-04T06:30:00.000Z');
+    });
+
+    it('báo lỗi khi biểu thức không bao giờ khớp', () => {
+        expect(() => nextCronTime('0 0 30 2 *', new Date('2024-01-01T00:00:00Z'))).toThrow('has no run time');
+    });
+});
@@ -0,0 +1,224 @@
+/**
+ * Biểu thức cron 5 trường (phút giờ ngày tháng thứ) đã parse
+ */
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    // 0 = Chủ nhật
+    daysOfWeek: Set<number>;
+    // Trường ngày/thứ có bị giới hạn không (quy tắc "hoặc" của cron khi cả hai bị giới hạn)
+    daysOfMonthRestricted: boolean;
+    daysOfWeekRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface CronField {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+    // Giá trị đầu tiên của danh sách tên (tháng bắt đầu từ 1)
+    nameOffset?: number;
+}
+
+const FIELDS: CronField[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+    // 7 cũng là Chủ nhật
+    { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+];
+
+// Giới hạn tìm kiếm để biểu thức không bao giờ khớp (ví dụ 30/2) không lặp vô hạn
+const MAX_SEARCH_YEARS = 5;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function parseValue(value: string, field: CronField, expression: string): number {
+    const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+    const number = index >= 0 ? index + (field.nameOffset ?? 0) : Number(value);
+    if (!Number.isInteger(number) || number < field.min || number > field.max) {
+        throw new Error(`Invalid ${field.name} "${value}" in cron expression "${expression}"`);
+    }
+    return number;
+}
+
+function parseField(source: string, field: CronField, expression: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of source.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step "${part}" in cron expression "${expression}"`);
+        }
+
+        let from: number;
+        let to: number;
+        if (range === '*') {
+            from = field.min;
+            to = field.max;
+        } else if (range.includes('-')) {
+            const [start, end] = range.split('-');
+            from = parseValue(start, field, expression);
+            to = parseValue(end, field, expression);
+            if (from > to) throw new Error(`Invalid range "${range}" in cron expression "${expression}"`);
+        } else {
+            from = parseValue(range, field, expression);
+            // "5/15" nghĩa là từ 5 đến hết, mỗi 15
+            to = stepText === undefined ? from : field.max;
+        }
+
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+
+    return values;
+}
+
+/**
+ * Parse biểu thức cron 5 trường: `*`, danh sách `1,15`, khoảng `1-5`, bước `*\/15`,
+ * tên tháng/thứ (`jan`, `mon-fri`) và các macro `@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly`
+ * @throws Error nếu không đúng cú pháp
+ */
+export function parseCron(expression: string): CronSchedule {
+    const normalized = CRON_MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index], expression));
+    // Chuẩn hóa 7 → 0 (Chủ nhật)
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        expression,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        daysOfMonthRestricted: parts[2] !== '*',
+        daysOfWeekRestricted: parts[4] !== '*'
+    };
+}
+
+/**
+ * Giờ địa phương của một thời điểm theo múi giờ, biểu diễn như thời điểm UTC
+ * (ví dụ 08:00 ở Asia/Ho_Chi_Minh → Date.UTC(..., 8, 0))
+ */
+function wallTime(time: number, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric'
+    }).formatToParts(new Date(time));
+    const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'));
+}
+
+/**
+ * Thời điểm thực của giờ địa phương. Giờ địa phương lặp lại hai lần (hết giờ mùa hè) thì lấy lần đầu;
+ * giờ không tồn tại (bị bỏ qua khi chuyển sang giờ mùa hè) thì lấy thời điểm ngay sau khoảng bị bỏ qua, như Vixie cron
+ */
+function fromWallTime(wall: number, timeZone: string): number {
+    const guess = wall - (wallTime(wall, timeZone) - wall);
+    for (const candidate of [guess - 3600 * 1000, guess]) {
+        const time = candidate - (wallTime(candidate, timeZone) - wall);
+        if (wallTime(time, timeZone) === wall) return time;
+    }
+
+    // Theo độ lệch sau lần chuyển giờ thì còn trước khoảng bị bỏ qua, theo độ lệch trước đó thì đã qua;
+    // tìm nhị phân phút đầu tiên có giờ địa phương sau `wall`
+    const offsetAt = (time: number) => wallTime(time, timeZone) - time;
+    let before = wall - offsetAt(wall + DAY_MS);
+    let after = wall - offsetAt(wall - DAY_MS);
+    while (after - before > MINUTE_MS) {
+        const middle = before + Math.floor((after - before) / MINUTE_MS / 2) * MINUTE_MS;
+        if (wallTime(middle, timeZone) > wall) after = middle;
+        else before = middle;
+    }
+    return after;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+    // Khi cả ngày và thứ bị giới hạn, cron chạy nếu khớp một trong hai
+    if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) return dayOfMonth || dayOfWeek;
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Lần chạy tiếp theo sau thời điểm `after` (không tính chính `after`) theo múi giờ
+ * @param schedule Biểu thức cron hoặc lịch đã parse
+ * @param after Thời điểm bắt đầu tìm
+ * @param timeZone Múi giờ IANA, ví dụ 'Asia/Ho_Chi_Minh' (mặc định UTC)
+ * @throws Error nếu không có lần chạy nào trong 5 năm tới
+ */
+export function nextCronTime(schedule: CronSchedule | string, after: Date, timeZone: string = 'UTC'): Date {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+    // Bắt đầu từ phút kế tiếp theo giờ địa phương
+    const start = wallTime(after.getTime(), timeZone) + MINUTE_MS;
+    const limit = start + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+    const wall = new Date(start);
+
+    while (wall.getTime() <= limit) {
+        if (!cron.months.has(wall.getUTCMonth() + 1)) {
+            wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+            wall.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(cron, wall)) {
+            wall.setUTCDate(wall.getUTCDate() + 1);
+            wall.setUTCHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!cron.hours.has(wall.getUTCHours())) {
+            wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!cron.minutes.has(wall.getUTCMinutes())) {
+            wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+
+        const time = fromWallTime(wall.getTime(), timeZone);
+        if (time > after.getTime()) return new Date(time);
+        wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+    }
+
+    throw new Error(`Cron expression "${cron.expression}" has no run time in the next ${MAX_SEARCH_YEARS} years`);
+}
+
+/**
+ * Kiểm tra múi giờ IANA hợp lệ
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,104 @@
+import {
+    andGroup,
+    inListFilter,
+    normalizeFilterExpression,
+    notExpression,
+    numericFilter,
+    parseFilterString,
+    stringFilter,
+    validateFilterExpression
+} from "./filters";
+import { GA4FilterExpression } from "../ga.types";
+import { GA4InvalidRequestError } from "../errors";
+
+const context = { dimensions: ['country', 'pagePath'], metrics: ['sessions', 'bounceRate'] };
+
+describe('validateFilterExpression', () => {
+    it('chấp nhận biểu thức hợp lệ', () => {
+        const expression = andGroup(stringFilter('country', 'Vietnam'), notExpression(inListFilter('pagePath', ['/a', '/b'])));
+        expect(() => validateFilterExpression(expression, 'dimensionFilter', context)).not.toThrow();
+        expect(() => validateFilterExpression(numericFilter('sessions', 'GREATER_THAN', 10), 'metricFilter', context)).not.toThrow();
+    });
+
+    it('báo lỗi kèm vị trí khi thiếu hoặc thừa key', () => {
+        const expression = andGroup(stringFilter('country', 'Vietnam'), {} as GA4FilterExpression);
+        expect(() => validateFilterExpression(expression, 'dimensionFilter'))
+            .toThrow('dimensionFilter.andGroup.expressions[1]: exactly one of andGroup, orGroup, notExpression, filter must be set (got 0)');
+    });
+
+    it('không cho dùng metric trong dimensionFilter và ngược lại', () => {
+        expect(() => validateFilterExpression(numericFilter('sessions', 'EQUAL', 1), 'dimensionFilter', context))
+            .toThrow('metric "sessions" cannot be used in dimensionFilter');
+        expect(() => validateFilterExpression(numericFilter('country', 'EQUAL', 1), 'metricFilter', context))
+            .toThrow('dimension "country" cannot be used in metricFilter');
+    });
+
+    it('ném GA4InvalidRequestError kèm field bị lỗi', () => {
+        const expression = andGroup(stringFilter('country', 'Vietnam'), numericFilter('sessions', 'EQUAL', 1));
+        let error: unknown;
+        try {
+            validateFilterExpression(expression, 'dimensionFilter', context);
+        } catch (caught) {
+            error = caught;
+        }
+
+        expect(error).toBeInstanceOf(GA4InvalidRequestError);
+        expect((error as GA4InvalidRequestError).fields).toEqual(['sessions']);
+    });
+
+    it('không cho dùng stringFilter trong metricFilter', () => {
+        expect(() => validateFilterExpression(stringFilter('sessions', '1'), 'metricFilter'))
+            .toThrow('stringFilter is not supported in metricFilter');
+    });
+
+    it('kiểm tra giá trị số', () => {
+        const expression: GA4FilterExpression = {
+            filter: { fieldName: 'sessions', numericFilter: { operation: 'EQUAL', value: { int64Value: '1.5' } } }
+        };
+        expect(() => validateFilterExpression(expression, 'metricFilter')).toThrow('int64Value must be an integer string');
+    });
+});
+
+describe('normalizeFilterExpression', () => {
+    it('chuyển filter.not thành notExpression ở mọi cấp', () => {
+        const legacy: GA4FilterExpression = andGroup(
+            { filter: { fieldName: 'country', not: true, stringFilter: { value: 'Vietnam' } } },
+            { filter: { fieldName: 'pagePath', stringFilter: { value: '/' } } }
+        );
+
+        expect(normalizeFilterExpression(legacy)).toEqual(andGroup(
+            notExpression({ filter: { fieldName: 'country', stringFilter: { value: 'Vietnam' } } }),
+            { filter: { fieldName: 'pagePath', stringFilter: { value: '/' } } }
+        ));
+    });
+});
+
+describe('parseFilterString', () => {
+    it('tách điều kiện dimension và metric', () => {
+        const filters = parseFilterString('country==Vietnam,Japan;pagePath=~^/blog;sessions>100', ['sessions']);
+
+        expect(filters.dimensionFilter).toEqual(andGroup(
+            inListFilter('country', ['Vietnam', 'Japan']),
+            stringFilter('pagePath', '^/blog', 'PARTIAL_REGEXP')
+        ));
+        expect(filters.metricFilter).toEqual(numericFilter('sessions', 'GREATER_THAN', 100));
+    });
+
+    it('hỗ trợ phủ định và so sánh số', () => {
+        expect(parseFilterString('country!=Vietnam').dimensionFilter).toEqual(notExpression(stringFilter('country', 'Vietnam')));
+        expect(parseFilterString('sessions!=0', ['sessions']).metricFilter)
+            .toEqual(notExpression(numericFilter('sessions', 'EQUAL', 0)));
+        expect(parseFilterString('bounceRate<=0.5', ['bounceRate']).metricFilter)
+            .toEqual(numericFilter('bounceRate', 'LESS_THAN_OR_EQUAL', 0.5));
+    });
+
+    it('bỏ qua điều kiện rỗng', () => {
+        expect(parseFilterString(' ; ')).toEqual({});
+    });
+
+    it('báo lỗi cú pháp', () => {
+        expect(() => parseFilterString('country')).toThrow('Invalid filter "country"');
+        expect(() => parseFilterString('sessions>abc', ['sessions'])).toThrow('"abc" is not a number');
+        expect(() => parseFilterString('sessions=~1', ['sessions'])).toThrow('regex is not supported for metric "sessions"');
+    });
+});
@@ -0,0 +1,288 @@
+import {
+    GA4FieldFilter,
+    GA4FilterExpression,
+    GA4NumericOperation,
+    GA4NumericValue,
+    GA4StringMatchType
+} from "../ga.types";
+import { GA4InvalidRequestError } from "../errors";
+
+export type FilterKind = 'dimensionFilter' | 'metricFilter';
+
+// Tên dimension/metric của request, dùng để kiểm tra field trong bộ lọc
+export interface FilterFieldContext {
+    dimensions: string[];
+    metrics: string[];
+}
+
+const EXPRESSION_KEYS = ['andGroup', 'orGroup', 'notExpression', 'filter'] as const;
+const FIELD_FILTER_KEYS = ['stringFilter', 'inListFilter', 'numericFilter', 'betweenFilter', 'emptyFilter'] as const;
+const NUMERIC_OPERATIONS: GA4NumericOperation[] = ['EQUAL', 'LESS_THAN', 'LESS_THAN_OR_EQUAL', 'GREATER_THAN', 'GREATER_THAN_OR_EQUAL'];
+
+// Lỗi kiểm tra bộ lọc, kèm field bị lỗi nếu có
+function invalidFilter(message: string, fieldName?: string): GA4InvalidRequestError {
+    return new GA4InvalidRequestError(message, fieldName ? [fieldName] : []);
+}
+
+// ==== BUILDERS ====
+
+export function andGroup(...expressions: GA4FilterExpression[]): GA4FilterExpression {
+    return { andGroup: { expressions } };
+}
+
+export function orGroup(...expressions: GA4FilterExpression[]): GA4FilterExpression {
+    return { orGroup: { expressions } };
+}
+
+export function notExpression(expression: GA4FilterExpression): GA4FilterExpression {
+    return { notExpression: expression };
+}
+
+export function stringFilter(
+    fieldName: string,
+    value: string,
+    matchType: GA4StringMatchType = 'EXACT',
+    caseSensitive: boolean = false
+): GA4FilterExpression {
+    return { filter: { fieldName, stringFilter: { matchType, value, caseSensitive } } };
+}
+
+export function inListFilter(fieldName: string, values: string[], caseSensitive: boolean = false): GA4FilterExpression {
+    return { filter: { fieldName, inListFilter: { values, caseSensitive } } };
+}
+
+/**
+ * Chuyển số JavaScript thành NumericValue của GA4 (số nguyên dùng int64Value)
+ */
+export function toNumericValue(value: number): GA4NumericValue {
+    return Number.isInteger(value) ? { int64Value: String(value) } : { doubleValue: value };
+}
+
+export function numericFilter(fieldName: string, operation: GA4NumericOperation, value: number): GA4FilterExpression {
+    return { filter: { fieldName, numericFilter: { operation, value: toNumericValue(value) } } };
+}
+
+export function betweenFilter(fieldName: string, from: number, to: number): GA4FilterExpression {
+    return { filter: { fieldName, betweenFilter: { fromValue: toNumericValue(from), toValue: toNumericValue(to) } } };
+}
+
+export function emptyFilter(fieldName: string): GA4FilterExpression {
+    return { filter: { fieldName, emptyFilter: {} } };
+}
+
+// ==== CHUẨN HÓA & KIỂM TRA ====
+
+/**
+ * Chuyển cú pháp cũ `filter.not = true` thành notExpression mà GA4 hiểu được
+ */
+export function normalizeFilterExpression(expression: GA4FilterExpression): GA4FilterExpression {
+    if (expression.andGroup) {
+        return andGroup(...expression.andGroup.expressions.map(normalizeFilterExpression));
+    }
+    if (expression.orGroup) {
+        return orGroup(...expression.orGroup.expressions.map(normalizeFilterExpression));
+    }
+    if (expression.notExpression) {
+        return notExpression(normalizeFilterExpression(expression.notExpression));
+    }
+
+    const { not, ...filter } = expression.filter as GA4FieldFilter;
+    const normalized = { filter } as GA4FilterExpression;
+    return not ? notExpression(normalized) : normalized;
+}
+
+function validateNumericValue(value: GA4NumericValue | undefined, path: string, fieldName: string): void {
+    if (!value) {
+        throw invalidFilter(`${path}: numeric value is required`, fieldName);
+    }
+
+    const hasInt = value.int64Value !== undefined;
+    const hasDouble = value.doubleValue !== undefined;
+    if (hasInt === hasDouble) {
+        throw invalidFilter(`${path}: exactly one of int64Value or doubleValue must be set`, fieldName);
+    }
+    if (hasInt && !/^-?\d+$/.test(String(value.int64Value))) {
+        throw invalidFilter(`${path}: int64Value must be an integer string, got "${value.int64Value}"`, fieldName);
+    }
+    if (hasDouble && !Number.isFinite(value.doubleValue)) {
+        throw invalidFilter(`${path}: doubleValue must be a finite number`, fieldName);
+    }
+}
+
+function validateFieldFilter(filter: GA4FieldFilter, kind: FilterKind, context: FilterFieldContext | undefined, path: string): void {
+    if (!filter.fieldName) {
+        throw invalidFilter(`${path}: fieldName is required`);
+    }
+
+    const filterKeys = FIELD_FILTER_KEYS.filter(key => filter[key] !== undefined);
+    if (filterKeys.length !== 1) {
+        throw invalidFilter(`${path}: exactly one of ${FIELD_FILTER_KEYS.join(', ')} must be set (got ${filterKeys.length})`, filter.fieldName);
+    }
+
+    if (context) {
+        if (kind === 'dimensionFilter' && context.metrics.includes(filter.fieldName)) {
+            throw invalidFilter(`${path}: metric "${filter.fieldName}" cannot be used in dimensionFilter, use metricFilter instead`, filter.fieldName);
+        }
+        if (kind === 'metricFilter' && context.dimensions.includes(filter.fieldName)) {
+            throw invalidFilter(`${path}: dimension "${filter.fieldName}" cannot be used in metricFilter, use dimensionFilter instead`, filter.fieldName);
+        }
+    }
+
+    const [filterKey] = filterKeys;
+    if (kind === 'metricFilter' && (filterKey === 'stringFilter' || filterKey === 'inListFilter' || filterKey === 'emptyFilter')) {
+        throw invalidFilter(`${path}: ${filterKey} is not supported in metricFilter, use numericFilter or betweenFilter`, filter.fieldName);
+    }
+
+    if (filter.stringFilter && typeof filter.stringFilter.value !== 'string') {
+        throw invalidFilter(`${path}.stringFilter: value must be a string`, filter.fieldName);
+    }
+    if (filter.inListFilter && (!Array.isArray(filter.inListFilter.values) || filter.inListFilter.values.length === 0)) {
+        throw invalidFilter(`${path}.inListFilter: values must be a non-empty array`, filter.fieldName);
+    }
+    if (filter.numericFilter) {
+        if (!NUMERIC_OPERATIONS.includes(filter.numericFilter.operation)) {
+            throw invalidFilter(`${path}.numericFilter: unknown operation "${filter.numericFilter.operation}"`, filter.fieldName);
+        }
+        validateNumericValue(filter.numericFilter.value, `${path}.numericFilter.value`, filter.fieldName);
+    }
+    if (filter.betweenFilter) {
+        validateNumericValue(filter.betweenFilter.fromValue, `${path}.betweenFilter.fromValue`, filter.fieldName);
+        validateNumericValue(filter.betweenFilter.toValue, `${path}.betweenFilter.toValue`, filter.fieldName);
+    }
+}
+
+/**
+ * Kiểm tra FilterExpression trước khi gửi request, ném lỗi mô tả rõ vị trí sai
+ * @param expression Biểu thức bộ lọc
+ * @param kind Loại bộ lọc (dimensionFilter hoặc metricFilter)
+ * @param context Tên dimension/metric của request (tùy chọn)
+ * @throws GA4InvalidRequestError kèm fieldName của điều kiện bị lỗi trong `fields`
+ */
+export function validateFilterExpression(
+    expression: GA4FilterExpression,
+    kind: FilterKind,
+    context?: FilterFieldContext,
+    path: string = kind
+): void {
+    if (!expression || typeof expression !== 'object') {
+        throw invalidFilter(`${path}: filter expression must be an object`);
+    }
+
+    const keys = EXPRESSION_KEYS.filter(key => expression[key] !== undefined);
+    if (keys.length !== 1) {
+        throw invalidFilter(`${path}: exactly one of ${EXPRESSION_KEYS.join(', ')} must be set (got ${keys.length})`);
+    }
+
+    const group = expression.andGroup || expression.orGroup;
+    if (group) {
+        const groupKey = expression.andGroup ? 'andGroup' : 'orGroup';
+        if (!Array.isArray(group.expressions) || group.expressions.length === 0) {
+            throw invalidFilter(`${path}.${groupKey}: expressions must be a non-empty array`);
+        }
+        group.expressions.forEach((child, index) =>
+            validateFilterExpression(child, kind, context, `${path}.${groupKey}.expressions[${index}]`)
+        );
+        return;
+    }
+
+    if (expression.notExpression) {
+        validateFilterExpression(expression.notExpression, kind, context, `${path}.notExpression`);
+        return;
+    }
+
+    validateFieldFilter(expression.filter as GA4FieldFilter, kind, context, `${path}.filter`);
+}
+
+/**
+ * Liệt kê tất cả fieldName được dùng trong một FilterExpression
+ */
+export function collectFilterFields(expression: GA4FilterExpression | undefined): string[] {
+    if (!expression) return [];
+
+    const group = expression.andGroup || expression.orGroup;
+    if (group) {
+        return group.expressions.flatMap(collectFilterFields);
+    }
+    if (expression.notExpression) {
+        return collectFilterFields(expression.notExpression);
+    }
+
+    return expression.filter ? [expression.filter.fieldName] : [];
+}
+
+// ==== CÚ PHÁP CHUỖI ====
+
+// Bộ lọc dimension và metric của một request
+export interface ParsedFilters {
+    dimensionFilter?: GA4FilterExpression;
+    metricFilter?: GA4FilterExpression;
+}
+
+const FILTER_CONDITION_PATTERN = /^\s*([\w:]+)\s*(==|!=|=~|!~|>=|<=|>|<)\s*(.*?)\s*$/;
+const COMPARISON_OPERATIONS: Record<string, GA4NumericOperation> = {
+    '>': 'GREATER_THAN',
+    '>=': 'GREATER_THAN_OR_EQUAL',
+    '<': 'LESS_THAN',
+    '<=': 'LESS_THAN_OR_EQUAL'
+};
+
+function parseFilterNumber(value: string, condition: string): number {
+    const number = Number(value);
+    if (value === '' || !Number.isFinite(number)) {
+        throw new Error(`Filter "${condition}": "${value}" is not a number`);
+    }
+    return number;
+}
+
+function parseFilterCondition(condition: string, metrics: string[]): { kind: FilterKind; expression: GA4FilterExpression } {
+    const match = FILTER_CONDITION_PATTERN.exec(condition);
+    if (!match) {
+        throw new Error(`Invalid filter "${condition}". Use field==value, !=, =~regex, !~regex, >, >=, <, <=`);
+    }
+
+    const [, field, operator, value] = match;
+    if (metrics.includes(field)) {
+        if (operator === '=~' || operator === '!~') {
+            throw new Error(`Filter "${condition}": regex is not supported for metric "${field}"`);
+        }
+        const number = parseFilterNumber(value, condition);
+        const expression = numericFilter(field, COMPARISON_OPERATIONS[operator] || 'EQUAL', number);
+        return { kind: 'metricFilter', expression: operator === '!=' ? notExpression(expression) : expression };
+    }
+
+    let expression: GA4FilterExpression;
+    if (operator in COMPARISON_OPERATIONS) {
+        expression = numericFilter(field, COMPARISON_OPERATIONS[operator], parseFilterNumber(value, condition));
+    } else if (operator === '=~' || operator === '!~') {
+        expression = stringFilter(field, value, 'PARTIAL_REGEXP');
+    } else {
+        // Nhiều giá trị phân cách bằng dấu phẩy: khớp một trong các giá trị
+        const values = value.split(',').map(item => item.trim());
+        expression = values.length > 1 ? inListFilter(field, values) : stringFilter(field, value);
+    }
+    return { kind: 'dimensionFilter', expression: operator.startsWith('!') ? notExpression(expression) : expression };
+}
+
+/**
+ * Parse bộ lọc dạng chuỗi (dùng cho CLI): các điều kiện nối bằng `;` (AND), ví dụ
+ * `country==Vietnam,Japan;pagePath=~^/blog;sessions>100`.
+ * Điều kiện trên metric (có trong `metrics`) được đưa vào metricFilter, còn lại vào dimensionFilter
+ * @param input Chuỗi bộ lọc
+ * @param metrics Tên metric của request
+ * @throws Error nếu không đúng cú pháp
+ */
+export function parseFilterString(input: string, metrics: string[] = []): ParsedFilters {
+    const groups: Record<FilterKind, GA4FilterExpression[]> = { dimensionFilter: [], metricFilter: [] };
+    input.split(';')
+        .filter(condition => condition.trim())
+        .forEach(condition => {
+            const { kind, expression } = parseFilterCondition(condition, metrics);
+            groups[kind].push(expression);
+        });
+
+    const combine = (expressions: GA4FilterExpression[]) => expressions.length > 1 ? andGroup(...expressions) : expressions[0];
+    const result: ParsedFilters = {};
+    if (groups.dimensionFilter.length > 0) result.dimensionFilter = combine(groups.dimensionFilter);
+    if (groups.metricFilter.length > 0) result.metricFilter = combine(groups.metricFilter);
+    return result;
+}
@@ -0,0 +1,103 @@
+import {
+    FunnelReportResult,
+    FunnelStepDefinition,
+    FunnelStepResult,
+    GA4FunnelResponse,
+    GA4FunnelStep
+} from "../ga.types";
+import { GA4InvalidRequestError } from "../errors";
+import { parseReport } from "./report-parser";
+
+// Giá trị breakdown GA4 dùng cho dòng tổng
+const TOTAL_BREAKDOWN_VALUE = 'RESERVED_TOTAL';
+
+/**
+ * Chuyển định nghĩa bước đơn giản thành FunnelStep của GA4
+ * @throws GA4InvalidRequestError nếu phễu có ít hơn 2 bước
+ */
+export function buildFunnelSteps(definitions: FunnelStepDefinition[]): GA4FunnelStep[] {
+    if (definitions.length < 2) {
+        throw new GA4InvalidRequestError('A funnel needs at least 2 steps');
+    }
+
+    return definitions.map(definition => {
+        const step: GA4FunnelStep = {
+            name: definition.name,
+            filterExpression: definition.eventName !== undefined
+                ? { funnelEventFilter: { eventName: definition.eventName } }
+                : {
+                    funnelFieldFilter: {
+                        fieldName: 'pagePath',
+                        stringFilter: { matchType: definition.matchType || 'EXACT', value: definition.pagePath as string }
+                    }
+                }
+        };
+
+        if (definition.isDirectlyFollowedBy) step.isDirectlyFollowedBy = true;
+        if (definition.withinDurationFromPriorStep) step.withinDurationFromPriorStep = definition.withinDurationFromPriorStep;
+
+        return step;
+    });
+}
+
+// GA4 trả tên bước dạng "1. Tên bước"
+function parseStepName(value: string): { step: number; name: string } {
+    const match = /^(\d+)\.\s*(.*)$/.exec(value);
+    return match
+        ? { step: parseInt(match[1], 10), name: match[2] }
+        : { step: 0, name: value };
+}
+
+function withConversion(steps: FunnelStepResult[]): FunnelStepResult[] {
+    const sorted = [...steps].sort((a, b) => a.step - b.step);
+    const firstStepUsers = sorted[0]?.activeUsers || 0;
+
+    return sorted.map(step => ({
+        ...step,
+        conversionFromStart: firstStepUsers > 0 ? step.activeUsers / firstStepUsers : 0
+    }));
+}
+
+/**
+ * Parse funnelTable của runFunnelReport thành tỷ lệ hoàn thành/rời bỏ theo từng bước
+ * @param response Response thô của runFunnelReport
+ * @param breakdownDimension Dimension dùng để phân tách (nếu có)
+ */
+export function parseFunnelReport(response: GA4FunnelResponse, breakdownDimension?: string): FunnelReportResult {
+    const table = parseReport(response.funnelTable);
+    const groups = new Map<string, FunnelStepResult[]>();
+
+    for (const row of table.rows) {
+        const { step, name } = parseStepName(String(row.funnelStepName ?? ''));
+        const breakdown = breakdownDimension ? String(row[breakdownDimension] ?? TOTAL_BREAKDOWN_VALUE) : TOTAL_BREAKDOWN_VALUE;
+
+        const result: FunnelStepResult = {
+            step,
+            name,
+            activeUsers: Number(row.activeUsers ?? 0),
+            completionRate: Number(row.funnelStepCompletionRate ?? 0),
+            abandonments: Number(row.funnelStepAbandonments ?? 0),
+            abandonmentRate: Number(row.funnelStepAbandonmentRate ?? 0),
+            conversionFromStart: 0
+        };
+
+        const group = groups.get(breakdown) || [];
+        group.push(result);
+        groups.set(breakdown, group);
+    }
+
+    const steps = withConversion(groups.get(TOTAL_BREAKDOWN_VALUE) || []);
+    const breakdowns: Record<string, FunnelStepResult[]> = {};
+    for (const [value, group] of groups) {
+        if (value !== TOTAL_BREAKDOWN_VALUE) {
+            breakdowns[value] = withConversion(group);
+        }
+    }
+
+    return {
+        steps,
+        breakdownDimension,
+        breakdowns,
+        overallCompletionRate: steps[steps.length - 1]?.conversionFromStart ?? 0
+    };
+}
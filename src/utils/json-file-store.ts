@@ -0,0 +1,48 @@
+import { logger } from "./logger";
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Lưu các bản ghi theo khóa vào một file JSON (đọc một lần, ghi lại toàn bộ file mỗi lần cập nhật).
+ * Dùng cho trạng thái nhỏ cần giữ qua các lần khởi động lại
+ */
+export class JsonFileStore<T> {
+    private filePath: string;
+    private records: Record<string, T> | null = null;
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    getFilePath(): string {
+        return this.filePath;
+    }
+
+    get(key: string): T | undefined {
+        return this.load()[key];
+    }
+
+    set(key: string, value: T): void {
+        const records = this.load();
+        records[key] = value;
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        // Ghi ra file tạm rồi đổi tên để file không bị hỏng nếu tiến trình dừng giữa chừng
+        const tempPath = `${this.filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(records, null, 2));
+        fs.renameSync(tempPath, this.filePath);
+    }
+
+    private load(): Record<string, T> {
+        if (!this.records) {
+            try {
+                this.records = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    logger.warn(`Không đọc được file trạng thái ${this.filePath}, bắt đầu lại từ đầu:`, (error as Error).message);
+                }
+                this.records = {};
+            }
+        }
+        return this.records!;
+    }
+}
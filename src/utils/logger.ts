@@ -12,6 +12,10 @@ export enum LogLevel {
       const level = process.env.LOG_LEVEL?.toUpperCase() || 'INFO';
       this.logLevel = LogLevel[level as keyof typeof LogLevel] ?? LogLevel.INFO;
     }
+
+    public setLevel(level: LogLevel): void {
+      this.logLevel = level;
+    }
   
     private formatMessage(level: string, message: string, ...args: any[]): string {
       const timestamp = new Date().toISOString();
@@ -0,0 +1,106 @@
+import { GA4Metadata } from "../ga.types";
+
+// Dimension do GA4 tự thêm khi request có nhiều khoảng thời gian
+const IMPLICIT_DIMENSIONS = ['dateRange'];
+
+const MAX_SUGGESTIONS = 3;
+
+export interface FieldValidationRequest {
+    dimensions: string[];
+    metrics: string[];
+    // Field dùng trong dimensionFilter/metricFilter
+    dimensionFilterFields?: string[];
+    metricFilterFields?: string[];
+}
+
+// Lỗi của một field: tên field như trong request và thông báo (kèm gợi ý nếu có)
+export interface FieldValidationError {
+    field: string;
+    message: string;
+}
+
+function levenshtein(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+
+        for (let j = 1; j <= b.length; j++) {
+            const temp = previous[j];
+            previous[j] = Math.min(
+                previous[j] + 1,
+                previous[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = temp;
+        }
+    }
+
+    return previous[b.length];
+}
+
+/**
+ * Gợi ý các tên gần đúng nhất (không phân biệt hoa thường)
+ */
+export function suggestNames(name: string, candidates: string[]): string[] {
+    const lower = name.toLowerCase();
+    const threshold = Math.max(2, Math.floor(name.length / 3));
+
+    return candidates
+        .map(candidate => {
+            const candidateLower = candidate.toLowerCase();
+            const distance = candidateLower === lower ? 0 : levenshtein(lower, candidateLower);
+            // Ưu tiên tên chứa nhau (ví dụ "pageviews" ↔ "screenPageViews")
+            const contains = candidateLower.includes(lower) || lower.includes(candidateLower);
+            return { candidate, distance: contains ? Math.min(distance, threshold) : distance };
+        })
+        .filter(item => item.distance <= threshold)
+        .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(item => item.candidate);
+}
+
+/**
+ * Kiểm tra tên dimension/metric theo metadata của property
+ * @returns Danh sách lỗi kèm tên field (rỗng nếu hợp lệ)
+ */
+export function findFieldErrors(metadata: GA4Metadata, request: FieldValidationRequest): FieldValidationError[] {
+    const dimensionNames = metadata.dimensions.flatMap(item => [item.apiName, ...(item.deprecatedApiNames || [])]);
+    const metricNames = metadata.metrics.flatMap(item => [item.apiName, ...(item.deprecatedApiNames || [])]);
+    const knownDimensions = new Set([...dimensionNames, ...IMPLICIT_DIMENSIONS]);
+    const knownMetrics = new Set(metricNames);
+
+    const errors: FieldValidationError[] = [];
+
+    const check = (name: string, kind: 'dimension' | 'metric', location: string) => {
+        const known = kind === 'dimension' ? knownDimensions : knownMetrics;
+        if (known.has(name)) return;
+
+        const otherKind = kind === 'dimension' ? 'metric' : 'dimension';
+        const other = kind === 'dimension' ? knownMetrics : knownDimensions;
+        if (other.has(name)) {
+            errors.push({ field: name, message: `"${name}" in ${location} is a ${otherKind}, not a ${kind}` });
+            return;
+        }
+
+        const suggestions = suggestNames(name, kind === 'dimension' ? dimensionNames : metricNames);
+        const hint = suggestions.length > 0 ? ` Did you mean ${suggestions.map(item => `"${item}"`).join(', ')}?` : '';
+        errors.push({ field: name, message: `Unknown ${kind} "${name}" in ${location}.${hint}` });
+    };
+
+    request.dimensions.forEach(name => check(name, 'dimension', 'dimensions'));
+    request.metrics.forEach(name => check(name, 'metric', 'metrics'));
+    (request.dimensionFilterFields || []).forEach(name => check(name, 'dimension', 'dimensionFilter'));
+    (request.metricFilterFields || []).forEach(name => check(name, 'metric', 'metricFilter'));
+
+    return errors;
+}
+
+/**
+ * Kiểm tra tên dimension/metric theo metadata của property
+ * @returns Danh sách thông báo lỗi (rỗng nếu hợp lệ)
+ */
+export function findInvalidFields(metadata: GA4Metadata, request: FieldValidationRequest): string[] {
+    return findFieldErrors(metadata, request).map(error => error.message);
+}
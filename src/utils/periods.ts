@@ -0,0 +1,89 @@
+import { Translator } from "../i18n";
+
+/**
+ * Khoảng thời gian của báo cáo theo cú pháp ngày tương đối của GA4
+ */
+export interface ReportPeriod {
+    // Định danh dạng rút gọn: today, yesterday, 7d, 28d...
+    id: string;
+    startDate: string;
+    endDate: string;
+}
+
+const MAX_DAYS = 365;
+
+// Tên gọi khác của các khoảng thường dùng
+const PERIOD_ALIASES: Record<string, string> = {
+    day: 'yesterday',
+    week: '7d',
+    month: '28d',
+    quarter: '90d'
+};
+
+export const PERIOD_SYNTAX = 'today, yesterday, week, month, <N>d (1-365)';
+
+/**
+ * Parse khoảng thời gian: `today`, `yesterday`, `7d` (7 ngày gần nhất, không gồm hôm nay), `week`, `month`
+ * @throws Error nếu không đúng cú pháp
+ */
+export function parsePeriod(input: string): ReportPeriod {
+    const value = input.trim().toLowerCase();
+    const id = PERIOD_ALIASES[value] || value;
+
+    if (id === 'today') return { id, startDate: 'today', endDate: 'today' };
+    if (id === 'yesterday') return { id, startDate: 'yesterday', endDate: 'yesterday' };
+
+    const match = /^(\d+)d$/.exec(id);
+    const days = match ? parseInt(match[1], 10) : NaN;
+    if (!(days >= 1 && days <= MAX_DAYS)) {
+        throw new Error(`Invalid period "${input}". Use: ${PERIOD_SYNTAX}`);
+    }
+
+    return days === 1
+        ? { id: 'yesterday', startDate: 'yesterday', endDate: 'yesterday' }
+        : { id, startDate: `${days}daysAgo`, endDate: 'yesterday' };
+}
+
+/**
+ * Tên hiển thị của khoảng thời gian theo ngôn ngữ ("7 ngày qua", "last 7 days")
+ */
+export function formatPeriod(period: ReportPeriod, t: Translator): string {
+    if (period.id === 'today' || period.id === 'yesterday') {
+        return t.t(`period.${period.id}`);
+    }
+
+    const match = /^(\d+)daysAgo$/.exec(period.startDate);
+    return match && period.endDate === 'yesterday'
+        ? t.t('period.days', { count: parseInt(match[1], 10) })
+        : `${period.startDate} → ${period.endDate}`;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 3600 * 1000,
+    d: 24 * 3600 * 1000
+};
+
+/**
+ * Parse khoảng thời lượng: số (phút) hoặc chuỗi `30m`, `6h`, `1d`, `1h30m`
+ * @returns Số mili giây
+ * @throws Error nếu không đúng cú pháp
+ */
+export function parseDuration(input: string | number): number {
+    if (typeof input === 'number') {
+        if (!(input >= 0)) throw new Error(`Invalid duration "${input}"`);
+        return input * DURATION_UNITS.m;
+    }
+
+    const value = input.trim().toLowerCase();
+    if (!/^(\d+[smhd])+$/.test(value)) {
+        throw new Error(`Invalid duration "${input}". Use e.g. 30m, 6h, 1d`);
+    }
+
+    let total = 0;
+    for (const [, amount, unit] of value.matchAll(/(\d+)([smhd])/g)) {
+        total += parseInt(amount, 10) * DURATION_UNITS[unit];
+    }
+    return total;
+}
@@ -0,0 +1,152 @@
+import { GA4PivotHeader, GA4PivotResponse, PivotMatrix } from "../ga.types";
+import { parseMetricValue } from "./report-parser";
+import { escapeHtml } from "./telegram-message";
+
+// Ký tự nối giá trị khi một pivot có nhiều dimension
+const LABEL_SEPARATOR = ' / ';
+
+export interface PivotTableOptions {
+    // Số dòng/cột tối đa hiển thị (phần còn lại bị lược bỏ)
+    maxRows?: number;
+    maxColumns?: number;
+    // Độ rộng tối đa của mỗi ô
+    maxCellWidth?: number;
+    // Thêm dòng và cột tổng
+    showTotals?: boolean;
+}
+
+// Nhãn hiển thị trong bảng, do nơi gọi cung cấp theo ngôn ngữ của báo cáo
+export interface PivotTableLabels {
+    // Nhãn dòng/cột tổng
+    total: string;
+    // Ghi chú khi bảng bị lược bỏ dòng/cột
+    hidden: (rows: number, columns: number) => string;
+}
+
+function headerLabels(header: GA4PivotHeader): string[] {
+    return header.pivotDimensionHeaders.map(item =>
+        item.dimensionValues.map(value => value.value).join(LABEL_SEPARATOR)
+    );
+}
+
+// Tích Descartes các nhãn của nhiều pivot, dùng làm nhãn cột
+function combineLabels(groups: string[][]): string[] {
+    return groups.reduce<string[]>(
+        (combined, labels) => combined.flatMap(prefix => labels.map(label => prefix ? `${prefix}${LABEL_SEPARATOR}${label}` : label)),
+        ['']
+    );
+}
+
+/**
+ * Dựng ma trận từ response runPivotReport
+ * Dòng của ma trận là các giá trị của pivot đầu tiên, cột là tổ hợp giá trị của các pivot còn lại
+ * @param response Response thô của runPivotReport
+ * @param pivotFields fieldNames của từng pivot, theo thứ tự trong request
+ * @param metric Tên metric dùng cho giá trị ô (mặc định metric đầu tiên)
+ */
+export function toPivotMatrix(response: GA4PivotResponse, pivotFields: string[][], metric?: string): PivotMatrix {
+    const dimensionNames = (response.dimensionHeaders || []).map(header => header.name);
+    const metricHeaders = response.metricHeaders || [];
+    const metricIndex = metric ? metricHeaders.findIndex(header => header.name === metric) : 0;
+
+    if (metricIndex < 0) {
+        throw new Error(`Metric "${metric}" is not part of the pivot report`);
+    }
+
+    const [rowFields = [], ...columnFieldGroups] = pivotFields;
+    const columnFields = columnFieldGroups.flat();
+    const [rowHeader, ...columnHeaders] = response.pivotHeaders || [];
+
+    const rowLabels = rowHeader ? headerLabels(rowHeader) : [];
+    const columnLabels = columnHeaders.length > 0 ? combineLabels(columnHeaders.map(headerLabels)) : [metricHeaders[metricIndex]?.name || ''];
+
+    const rowIndexOf = new Map(rowLabels.map((label, index) => [label, index]));
+    const columnIndexOf = new Map(columnLabels.map((label, index) => [label, index]));
+    const values = rowLabels.map(() => columnLabels.map(() => 0));
+
+    const labelFor = (row: { dimensionValues: { value: string }[] }, fields: string[]) =>
+        fields.map(field => row.dimensionValues[dimensionNames.indexOf(field)]?.value ?? '').join(LABEL_SEPARATOR);
+
+    for (const row of response.rows || []) {
+        const rowIndex = rowIndexOf.get(labelFor(row, rowFields));
+        const columnIndex = columnFields.length > 0 ? columnIndexOf.get(labelFor(row, columnFields)) : 0;
+
+        // Bỏ qua tổ hợp nằm ngoài giới hạn (limit) của pivot
+        if (rowIndex === undefined || columnIndex === undefined) continue;
+
+        values[rowIndex][columnIndex] = parseMetricValue(
+            row.metricValues[metricIndex]?.value,
+            metricHeaders[metricIndex]?.type
+        );
+    }
+
+    return {
+        rowDimensions: rowFields,
+        columnDimensions: columnFields,
+        metric: metricHeaders[metricIndex]?.name || '',
+        rowLabels,
+        columnLabels,
+        values
+    };
+}
+
+function truncate(text: string, width: number): string {
+    return text.length > width ? text.substring(0, Math.max(width - 1, 1)) + '…' : text;
+}
+
+function formatNumber(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+/**
+ * Hiển thị ma trận pivot dạng bảng monospace trong thẻ <pre> (Telegram HTML)
+ * @param matrix Ma trận pivot
+ * @param labels Nhãn dòng/cột tổng và ghi chú phần bị lược bỏ
+ * @param options Tùy chọn hiển thị bảng
+ */
+export function formatPivotTable(matrix: PivotMatrix, labels: PivotTableLabels, options: PivotTableOptions = {}): string {
+    const maxRows = options.maxRows ?? 10;
+    const maxColumns = options.maxColumns ?? 4;
+    const maxCellWidth = options.maxCellWidth ?? 12;
+
+    const rowLabels = matrix.rowLabels.slice(0, maxRows);
+    const columnLabels = matrix.columnLabels.slice(0, maxColumns);
+    const values = matrix.values.slice(0, maxRows).map(row => row.slice(0, maxColumns));
+
+    const header = [matrix.rowDimensions.join(LABEL_SEPARATOR), ...columnLabels];
+    const body = rowLabels.map((label, index) => [label, ...values[index].map(formatNumber)]);
+
+    if (options.showTotals) {
+        header.push(labels.total);
+        body.forEach((cells, index) => cells.push(formatNumber(matrix.values[index].reduce((sum, value) => sum + value, 0))));
+
+        const columnTotals = columnLabels.map((_, column) =>
+            matrix.values.reduce((sum, row) => sum + (row[column] ?? 0), 0)
+        );
+        const grandTotal = matrix.values.reduce((sum, row) => sum + row.reduce((rowSum, value) => rowSum + value, 0), 0);
+        body.push([labels.total, ...columnTotals.map(formatNumber), formatNumber(grandTotal)]);
+    }
+
+    const table = [header, ...body].map(cells => cells.map(cell => truncate(cell, maxCellWidth)));
+    const widths = header.map((_, column) => Math.max(...table.map(cells => cells[column].length)));
+
+    const renderRow = (cells: string[]) => cells
+        .map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+        .join(' │ ');
+
+    const lines = [
+        renderRow(table[0]),
+        widths.map(width => '─'.repeat(width)).join('─┼─'),
+        ...table.slice(1).map(renderRow)
+    ];
+
+    let result = `<pre>${escapeHtml(lines.join('\n'))}</pre>\n`;
+
+    const hiddenRows = matrix.rowLabels.length - rowLabels.length;
+    const hiddenColumns = matrix.columnLabels.length - columnLabels.length;
+    if (hiddenRows > 0 || hiddenColumns > 0) {
+        result += `<i>${escapeHtml(labels.hidden(hiddenRows, hiddenColumns))}</i>\n`;
+    }
+
+    return result;
+}
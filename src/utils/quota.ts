@@ -0,0 +1,68 @@
+import { GA4PropertyQuota } from "../ga.types";
+
+// Ngưỡng dừng báo cáo định kỳ: số token tối thiểu phải còn lại
+export interface QuotaGuardOptions {
+    // Mặc định 500 (10% quota giờ của property chuẩn)
+    minRemainingPerHour?: number;
+    // Mặc định 2500 (10% quota ngày của property chuẩn)
+    minRemainingPerDay?: number;
+}
+
+// Quota gần nhất GA4 trả về
+export interface GA4QuotaState {
+    quota: GA4PropertyQuota;
+    updatedAt: Date;
+}
+
+// Token đã dùng kể từ khi tạo service (hoặc reset)
+export interface GA4QuotaUsage {
+    tokensConsumed: number;
+    requests: number;
+}
+
+const DEFAULT_MIN_REMAINING_PER_HOUR = 500;
+const DEFAULT_MIN_REMAINING_PER_DAY = 2500;
+
+// Quota ngày của GA4 được làm mới lúc nửa đêm theo giờ Thái Bình Dương
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+const HOUR_MS = 3600 * 1000;
+
+function quotaDay(date: Date): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: QUOTA_TIME_ZONE }).format(date);
+}
+
+/**
+ * Số token một request đã dùng (theo quota ngày)
+ */
+export function quotaTokensConsumed(quota?: GA4PropertyQuota): number {
+    return quota?.tokensPerDay?.consumed ?? 0;
+}
+
+/**
+ * Kiểm tra quota còn đủ để chạy báo cáo định kỳ
+ * @param state Quota gần nhất; chưa có thông tin thì luôn cho phép
+ * @returns Lý do dừng, hoặc undefined nếu còn đủ quota
+ */
+export function checkQuotaGuard(
+    state: GA4QuotaState | null,
+    options: QuotaGuardOptions = {},
+    now: Date = new Date()
+): string | undefined {
+    if (!state) return undefined;
+
+    const minPerHour = options.minRemainingPerHour ?? DEFAULT_MIN_REMAINING_PER_HOUR;
+    const minPerDay = options.minRemainingPerDay ?? DEFAULT_MIN_REMAINING_PER_DAY;
+    const { tokensPerHour, tokensPerDay } = state.quota;
+
+    // Chỉ tin số liệu còn cùng khung giờ / cùng ngày quota, sau đó quota đã được làm mới
+    const sameHour = Math.floor(state.updatedAt.getTime() / HOUR_MS) === Math.floor(now.getTime() / HOUR_MS);
+    const sameDay = quotaDay(state.updatedAt) === quotaDay(now);
+
+    if (sameDay && tokensPerDay?.remaining !== undefined && tokensPerDay.remaining < minPerDay) {
+        return `GA4 daily quota nearly exhausted: ${tokensPerDay.remaining} tokens remaining (minimum ${minPerDay})`;
+    }
+    if (sameHour && tokensPerHour?.remaining !== undefined && tokensPerHour.remaining < minPerHour) {
+        return `GA4 hourly quota nearly exhausted: ${tokensPerHour.remaining} tokens remaining (minimum ${minPerHour})`;
+    }
+    return undefined;
+}
@@ -0,0 +1,36 @@
+import { buildReportKeyboard, decodeReportView, encodeReportView } from "./report-keyboard";
+import { getTranslator } from "../i18n";
+import { logger } from "./logger";
+
+const t = getTranslator('en');
+
+describe('report keyboard', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('mã hóa và giải mã trạng thái', () => {
+        const data = encodeReportView({ scope: 'topPages', period: '7d', page: 1, breakdown: 'device' });
+
+        expect(data).toBe('ga:topPages:7d:1:device');
+        expect(decodeReportView(data)).toEqual({ scope: 'topPages', period: '7d', page: 1, breakdown: 'device' });
+        expect(decodeReportView('other:data')).toBeUndefined();
+    });
+
+    it('bỏ qua nút có callback_data vượt quá 64 byte thay vì ném lỗi', () => {
+        const warn = jest.spyOn(logger, 'warn').mockImplementation(() => undefined);
+        // Nút 28 ngày vừa 64 byte; nút "yesterday" và breakdown "country" vượt quá
+        const scope = 'x'.repeat(64 - 'ga::28d:1:'.length);
+
+        const keyboard = buildReportKeyboard({ scope, page: 1 }, t, {
+            hasNextPage: true,
+            breakdowns: [{ id: 'country', label: 'By country' }]
+        });
+
+        const buttons = keyboard.inline_keyboard.flat();
+        expect(buttons.map(button => button.text)).toEqual(['7 days', '28 days', '◀ Previous page', 'Next page ▶']);
+        expect(buttons.every(button => Buffer.byteLength(button.callback_data!, 'utf8') <= 64)).toBe(true);
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(() => encodeReportView({ scope, page: 1, breakdown: 'country' })).toThrow('exceeds 64 bytes');
+    });
+});
@@ -0,0 +1,109 @@
+import { Translator } from "../i18n";
+import { InlineKeyboardButton, InlineKeyboardMarkup } from "./telegram-message";
+import { logger } from "./logger";
+
+// Tiền tố callback_data của các nút điều hướng báo cáo
+export const REPORT_CALLBACK_PREFIX = 'ga';
+// Phạm vi "toàn bộ báo cáo" (mọi section đã đăng ký)
+export const ALL_SECTIONS_SCOPE = '*';
+
+// Telegram giới hạn callback_data tối đa 64 byte
+const CALLBACK_DATA_LIMIT = 64;
+
+// Các khoảng thời gian có nút bấm
+const PERIOD_BUTTONS = ['yesterday', '7d', '28d'];
+
+/**
+ * Trạng thái hiển thị của một báo cáo, được mã hóa vào callback_data của nút bấm
+ */
+export interface ReportView {
+    // Id section, hoặc '*' cho toàn bộ báo cáo
+    scope: string;
+    // Id khoảng thời gian (xem parsePeriod); bỏ trống = mặc định của section
+    period?: string;
+    // Trang hiện tại, bắt đầu từ 0
+    page: number;
+    // Id breakdown đang áp dụng (ví dụ 'device')
+    breakdown?: string;
+}
+
+// Các nút hiển thị thêm khi xem một section
+export interface ReportKeyboardOptions {
+    // Hiện hàng chọn khoảng thời gian (mặc định true)
+    periods?: boolean;
+    hasNextPage?: boolean;
+    // Breakdown áp dụng được cho section (id → nhãn nút)
+    breakdowns?: { id: string; label: string }[];
+}
+
+function callbackData(view: ReportView): string {
+    return [REPORT_CALLBACK_PREFIX, view.scope, view.period || '', view.page, view.breakdown || ''].join(':');
+}
+
+/**
+ * Mã hóa trạng thái thành callback_data, ví dụ "ga:topPages:7d:1:device"
+ * @throws Error nếu vượt quá 64 byte
+ */
+export function encodeReportView(view: ReportView): string {
+    const data = callbackData(view);
+    if (Buffer.byteLength(data, 'utf8') > CALLBACK_DATA_LIMIT) {
+        throw new Error(`Callback data "${data}" exceeds ${CALLBACK_DATA_LIMIT} bytes`);
+    }
+    return data;
+}
+
+/**
+ * Giải mã callback_data; undefined nếu không phải nút của báo cáo
+ */
+export function decodeReportView(data: string): ReportView | undefined {
+    const parts = data.split(':');
+    if (parts.length !== 5 || parts[0] !== REPORT_CALLBACK_PREFIX || !parts[1]) return undefined;
+
+    const page = parseInt(parts[3], 10);
+    if (!(page >= 0)) return undefined;
+
+    return {
+        scope: parts[1],
+        period: parts[2] || undefined,
+        page,
+        breakdown: parts[4] || undefined
+    };
+}
+
+// Nút có callback_data quá 64 byte (id section quá dài) bị bỏ qua để báo cáo vẫn được gửi
+function button(text: string, view: ReportView): InlineKeyboardButton[] {
+    const data = callbackData(view);
+    if (Buffer.byteLength(data, 'utf8') > CALLBACK_DATA_LIMIT) {
+        logger.warn(`Bỏ qua nút "${text}": callback data "${data}" vượt quá ${CALLBACK_DATA_LIMIT} byte`);
+        return [];
+    }
+    return [{ text, callback_data: data }];
+}
+
+/**
+ * Dựng bàn phím điều hướng: chọn khoảng thời gian; với một section thêm nút trang và breakdown.
+ * Nút có callback_data vượt quá 64 byte bị bỏ qua thay vì làm hỏng báo cáo
+ */
+export function buildReportKeyboard(view: ReportView, t: Translator, options: ReportKeyboardOptions = {}): InlineKeyboardMarkup {
+    // Đổi khoảng thời gian thì quay về trang đầu, giữ breakdown
+    const periodRow = PERIOD_BUTTONS.flatMap(period => {
+        const label = period === 'yesterday'
+            ? t.t('keyboard.yesterday')
+            : t.t('keyboard.days', { count: parseInt(period, 10) });
+        return button(view.period === period ? `• ${label} •` : label, { ...view, period, page: 0 });
+    });
+    const rows: InlineKeyboardButton[][] = options.periods === false || periodRow.length === 0 ? [] : [periodRow];
+    if (view.scope === ALL_SECTIONS_SCOPE) return { inline_keyboard: rows };
+
+    const pageRow: InlineKeyboardButton[] = [];
+    if (view.page > 0) pageRow.push(...button(t.t('keyboard.previousPage'), { ...view, page: view.page - 1 }));
+    if (options.hasNextPage) pageRow.push(...button(t.t('keyboard.nextPage'), { ...view, page: view.page + 1 }));
+    if (pageRow.length > 0) rows.push(pageRow);
+
+    const breakdownRow = (options.breakdowns || []).flatMap(breakdown => view.breakdown === breakdown.id
+        ? button(t.t('keyboard.noBreakdown'), { ...view, breakdown: undefined, page: 0 })
+        : button(breakdown.label, { ...view, breakdown: breakdown.id, page: 0 }));
+    if (breakdownRow.length > 0) rows.push(breakdownRow);
+
+    return { inline_keyboard: rows };
+}
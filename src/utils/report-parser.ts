@@ -0,0 +1,135 @@
+import {
+    CountryUserReport,
+    GA4MetricType,
+    GA4Response,
+    GA4Row,
+    ReportResult,
+    TypedMetricHeader,
+    TypedReport,
+    TypedReportResult,
+    TypedReportRow
+} from "../ga.types";
+
+// Ánh xạ các field của dạng báo cáo cũ sang tên dimension/metric thực tế
+export interface LegacyFieldMapping {
+    country?: string;
+    totalUsers?: string;
+    newUsers?: string;
+    sessions?: string;
+}
+
+/**
+ * Parse giá trị metric dạng chuỗi theo kiểu metric của GA4
+ */
+export function parseMetricValue(value: string | undefined, type: GA4MetricType = 'METRIC_TYPE_UNSPECIFIED'): number {
+    if (value === undefined || value === '') return 0;
+
+    const parsed = type === 'TYPE_INTEGER' ? parseInt(value, 10) : parseFloat(value);
+    return Number.isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Quy đổi giá trị metric thời lượng về giây dựa trên kiểu metric
+ */
+export function metricValueInSeconds(value: number, type: GA4MetricType): number {
+    switch (type) {
+        case 'TYPE_MILLISECONDS':
+            return value / 1000;
+        case 'TYPE_MINUTES':
+            return value * 60;
+        case 'TYPE_HOURS':
+            return value * 3600;
+        default:
+            return value;
+    }
+}
+
+function parseRow<D extends string, M extends string>(
+    row: GA4Row,
+    dimensionHeaders: D[],
+    metricHeaders: TypedMetricHeader<M>[]
+): TypedReportRow<D, M> {
+    const result: Record<string, string | number> = {};
+
+    dimensionHeaders.forEach((name, index) => {
+        result[name] = row.dimensionValues?.[index]?.value ?? '';
+    });
+
+    metricHeaders.forEach((header, index) => {
+        result[header.name] = parseMetricValue(row.metricValues?.[index]?.value, header.type);
+    });
+
+    return result as TypedReportRow<D, M>;
+}
+
+/**
+ * Chuyển response thô của GA4 thành báo cáo có kiểu, key theo tên dimension/metric
+ */
+export function parseReport<D extends string = string, M extends string = string>(response: GA4Response): TypedReport<D, M> {
+    const dimensionHeaders = (response.dimensionHeaders || []).map(header => header.name as D);
+    const metricHeaders: TypedMetricHeader<M>[] = (response.metricHeaders || []).map(header => ({
+        name: header.name as M,
+        type: header.type || 'METRIC_TYPE_UNSPECIFIED'
+    }));
+
+    const rows = (response.rows || []).map(row => parseRow(row, dimensionHeaders, metricHeaders));
+    const totals = (response.totals || []).map(row => parseRow(row, dimensionHeaders, metricHeaders));
+
+    return {
+        dimensionHeaders,
+        metricHeaders,
+        rows,
+        totals,
+        rowCount: response.rowCount ?? rows.length,
+        ...(response.propertyQuota ? { propertyQuota: response.propertyQuota } : {})
+    };
+}
+
+/**
+ * Chuyển báo cáo có kiểu về dạng cũ `country/totalUsers/newUsers/sessions`
+ * @param report Báo cáo có kiểu
+ * @param mapping Ánh xạ field cũ sang tên dimension/metric
+ */
+export function toLegacyRows(report: TypedReport, mapping: LegacyFieldMapping): CountryUserReport[] {
+    const dimensions = report.dimensionHeaders as string[];
+
+    // Giữ nguyên giá trị mặc định của dạng cũ: 'Unknown' cho dimension, '0' cho metric
+    const pick = (row: Record<string, string | number>, field?: string, isLabel = false): string => {
+        const fallback = isLabel || (field !== undefined && dimensions.includes(field)) ? 'Unknown' : '0';
+        if (!field) return fallback;
+
+        const value = row[field];
+        return value === undefined || value === '' ? fallback : String(value);
+    };
+
+    return report.rows.map(row => {
+        const record = row as Record<string, string | number>;
+        return {
+            country: pick(record, mapping.country, true),
+            totalUsers: pick(record, mapping.totalUsers),
+            newUsers: pick(record, mapping.newUsers),
+            sessions: pick(record, mapping.sessions)
+        };
+    });
+}
+
+/**
+ * Gắn dạng báo cáo cũ (headers/data/message) vào báo cáo có kiểu
+ */
+export function withLegacyShape<D extends string, M extends string>(
+    report: TypedReport<D, M>,
+    headers: string[],
+    mapping: LegacyFieldMapping,
+    emptyMessage: string
+): TypedReportResult<D, M> {
+    const legacy: ReportResult = {
+        headers,
+        data: toLegacyRows(report, mapping)
+    };
+
+    if (report.rows.length === 0) {
+        legacy.message = emptyMessage;
+    }
+
+    return { ...report, ...legacy };
+}
@@ -0,0 +1,54 @@
+export interface RetryOptions {
+    // Số lần thử lại sau lần gọi đầu tiên (mặc định 3)
+    maxRetries?: number;
+    // Thời gian chờ của lần thử lại đầu tiên, nhân đôi sau mỗi lần (mặc định 1000ms)
+    baseDelayMs?: number;
+    // Thời gian chờ tối đa của một lần thử lại (mặc định 30000ms)
+    maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000
+};
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Thời gian chờ trước lần thử lại thứ `attempt` (bắt đầu từ 1): exponential backoff kèm jitter
+ * trong khoảng [50%, 100%] để các tiến trình không thử lại cùng lúc
+ */
+export function backoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const { baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    const delay = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+    return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+/**
+ * Gọi hàm và thử lại với backoff khi lỗi được coi là tạm thời
+ * @param fn Hàm cần gọi
+ * @param isRetryable Lỗi có nên thử lại không
+ * @param options Số lần thử lại và thời gian chờ
+ * @param onRetry Gọi trước mỗi lần chờ để ghi log
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    isRetryable: (error: unknown) => boolean,
+    options: RetryOptions = {},
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+    const maxRetries = options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (error) {
+            if (attempt > maxRetries || !isRetryable(error)) throw error;
+
+            const delay = backoffDelay(attempt, options);
+            onRetry?.(error, attempt, delay);
+            await sleep(delay);
+        }
+    }
+}
@@ -0,0 +1,58 @@
+import { escapeHtml, splitMessage, TELEGRAM_MESSAGE_LIMIT } from "./telegram-message";
+
+// Số thẻ mở trừ số thẻ đóng của từng loại thẻ HTML
+function unbalancedTags(html: string): Record<string, number> {
+    const balance: Record<string, number> = {};
+    for (const [, closing, name] of html.matchAll(/<(\/?)([a-z]+)[^>]*>/gi)) {
+        balance[name] = (balance[name] || 0) + (closing ? -1 : 1);
+    }
+    return Object.fromEntries(Object.entries(balance).filter(([, count]) => count !== 0));
+}
+
+describe('splitMessage', () => {
+    it('không tách tin nhắn ngắn', () => {
+        expect(splitMessage('<b>Hello</b>')).toEqual(['<b>Hello</b>']);
+    });
+
+    it('đóng và mở lại thẻ HTML ở chỗ tách tại giới hạn 4096 ký tự', () => {
+        const line = `${escapeHtml('Trang /blog & <tin tức>')} — 1.234 lượt xem`;
+        const body = Array.from({ length: 300 }, (_, index) => `${index + 1}. <i>${line}</i>`).join('\n');
+        const message = `<b>📊 BÁO CÁO</b>\n<b>${body}</b>`;
+        expect(message.length).toBeGreaterThan(TELEGRAM_MESSAGE_LIMIT * 2);
+
+        const parts = splitMessage(message);
+
+        expect(parts.length).toBeGreaterThan(2);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(TELEGRAM_MESSAGE_LIMIT);
+            expect(unbalancedTags(part)).toEqual({});
+            // Không cắt đôi entity
+            expect(part).not.toMatch(/&[a-z]*$/);
+        }
+        // Phần sau vẫn nằm trong thẻ <b> đang mở
+        expect(parts[1].startsWith('<b>')).toBe(true);
+        expect(parts.join('\n').replace(/<\/?b>/g, '')).toContain('300. <i>');
+    });
+
+    it('ưu tiên tách ở xuống dòng', () => {
+        const lines = Array.from({ length: 20 }, (_, index) => `line ${index} ${'x'.repeat(20)}`);
+        const parts = splitMessage(lines.join('\n'), 'HTML', 100);
+
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(100);
+            expect(lines).toEqual(expect.arrayContaining(part.split('\n')));
+        }
+        expect(parts.join('\n')).toBe(lines.join('\n'));
+    });
+
+    it('giữ cặp ký hiệu MarkdownV2 khi tách', () => {
+        const message = `*${'bold text '.repeat(30)}*`;
+        const parts = splitMessage(message, 'MarkdownV2', 120);
+
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(120);
+            expect(part.startsWith('*') && part.endsWith('*')).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,280 @@
+// Giới hạn độ dài một tin nhắn của Telegram Bot API
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+export type TelegramParseMode = 'HTML' | 'MarkdownV2' | 'Markdown';
+
+// Bàn phím inline gắn dưới tin nhắn (reply_markup)
+export interface InlineKeyboardButton {
+    text: string;
+    // Tối đa 64 byte
+    callback_data: string;
+}
+
+export interface InlineKeyboardMarkup {
+    inline_keyboard: InlineKeyboardButton[][];
+}
+
+// Ký tự phải escape trong MarkdownV2 (ngoài code/pre)
+const MARKDOWN_V2_SPECIAL = /[_*\[\]()~`>#+\-=|{}.!\\]/g;
+
+// ==== ESCAPE ====
+
+export function escapeHtml(text: string | number): string {
+    return String(text)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+export function escapeMarkdownV2(text: string | number): string {
+    return String(text).replace(MARKDOWN_V2_SPECIAL, '\\$&');
+}
+
+/**
+ * Escape nội dung bên trong `code`/```pre``` của MarkdownV2 (chỉ ` và \)
+ */
+export function escapeMarkdownV2Code(text: string | number): string {
+    return String(text).replace(/[`\\]/g, '\\$&');
+}
+
+/**
+ * Escape văn bản thường theo parse mode
+ */
+export function escapeText(text: string | number, parseMode: TelegramParseMode = 'HTML'): string {
+    if (parseMode === 'HTML') return escapeHtml(text);
+    if (parseMode === 'MarkdownV2') return escapeMarkdownV2(text);
+    // Markdown cũ không có cơ chế escape đầy đủ, chỉ escape các ký tự đánh dấu
+    return String(text).replace(/[_*`\[]/g, '\\$&');
+}
+
+// ==== TÁCH TIN NHẮN ====
+
+// Thẻ/ký hiệu định dạng đang mở tại một vị trí trong tin nhắn
+interface OpenEntity {
+    name: string;
+    opening: string;
+    closing: string;
+}
+
+interface MarkupSyntax {
+    tokenize(text: string): string[];
+    next(stack: OpenEntity[], token: string): OpenEntity[];
+}
+
+// Thẻ HTML, entity (&amp;) và từng ký tự (theo code point để không cắt đôi emoji)
+const HTML_TOKEN = /<[^>]*>|&#?\w+;|[\s\S]/gu;
+
+const htmlSyntax: MarkupSyntax = {
+    tokenize: text => text.match(HTML_TOKEN) || [],
+    next(stack, token) {
+        const tag = /^<(\/?)([a-zA-Z][\w-]*)/.exec(token);
+        if (!tag) return stack;
+
+        const name = tag[2].toLowerCase();
+        if (tag[1]) {
+            const index = stack.map(entity => entity.name).lastIndexOf(name);
+            return index === -1 ? stack : [...stack.slice(0, index), ...stack.slice(index + 1)];
+        }
+        return [...stack, { name, opening: token, closing: `</${name}>` }];
+    }
+};
+
+// Ký tự escape, khối ```pre```, link [text](url) giữ nguyên khối, và các ký hiệu định dạng
+const MARKDOWN_TOKEN = /\\[\s\S]|```[\w+-]*\n?|\|\||__|\[(?:\\.|[^\]\\])*\]\((?:\\.|[^)\\])*\)|[*_~`]|[\s\S]/gu;
+const CODE_ENTITIES = ['`', '```'];
+
+const markdownSyntax: MarkupSyntax = {
+    tokenize: text => text.match(MARKDOWN_TOKEN) || [],
+    next(stack, token) {
+        const name = token.startsWith('```') ? '```' : token;
+        if (!['```', '`', '*', '_', '__', '~', '||'].includes(name)) return stack;
+
+        const top = stack[stack.length - 1];
+        if (top?.name === name) return stack.slice(0, -1);
+        // Trong code/pre, các ký hiệu khác chỉ là văn bản
+        if (top && CODE_ENTITIES.includes(top.name)) return stack;
+
+        return [...stack, { name, opening: token, closing: name }];
+    }
+};
+
+function closingOf(stack: OpenEntity[]): string {
+    return stack.map(entity => entity.closing).reverse().join('');
+}
+
+// Ưu tiên cắt sau dòng trống (ranh giới section), rồi cuối dòng, rồi khoảng trắng
+function breakPriority(tokens: string[], index: number): number {
+    if (tokens[index] === '\n') return tokens[index - 1] === '\n' ? 3 : 2;
+    if (tokens[index] === ' ') return 1;
+    return 0;
+}
+
+/**
+ * Tách tin nhắn dài thành nhiều phần không vượt quá giới hạn của Telegram.
+ * Ưu tiên cắt ở ranh giới section/dòng; thẻ đang mở được đóng ở cuối phần trước và mở lại ở phần sau
+ * @param text Nội dung đã định dạng theo parseMode
+ * @param parseMode Parse mode của tin nhắn
+ * @param limit Độ dài tối đa của mỗi phần
+ */
+export function splitMessage(
+    text: string,
+    parseMode: TelegramParseMode = 'HTML',
+    limit: number = TELEGRAM_MESSAGE_LIMIT
+): string[] {
+    if (text.length <= limit) return [text];
+
+    const syntax = parseMode === 'HTML' ? htmlSyntax : markdownSyntax;
+    const tokens = syntax.tokenize(text);
+    const chunks: string[] = [];
+    let index = 0;
+    let stack: OpenEntity[] = [];
+
+    while (index < tokens.length) {
+        const prefix = stack.map(entity => entity.opening).join('');
+        let body = '';
+        let current = stack;
+        let best: { end: number; body: string; stack: OpenEntity[]; priority: number } | undefined;
+        let position = index;
+
+        for (; position < tokens.length; position++) {
+            const token = tokens[position];
+            const nextStack = syntax.next(current, token);
+            if (prefix.length + body.length + token.length + closingOf(nextStack).length > limit) break;
+
+            body += token;
+            current = nextStack;
+
+            const priority = breakPriority(tokens, position);
+            if (!best || priority >= best.priority) {
+                best = { end: position + 1, body, stack: current, priority };
+            }
+        }
+
+        if (position === tokens.length) {
+            best = { end: position, body, stack: current, priority: 0 };
+        }
+        if (!best) {
+            throw new Error(`Cannot split message: limit ${limit} is too small for the open formatting`);
+        }
+
+        if (best.body.trim()) {
+            chunks.push(prefix + best.body.trimEnd() + closingOf(best.stack));
+        }
+
+        index = best.end;
+        stack = best.stack;
+        while (index < tokens.length && tokens[index] === '\n') index++;
+    }
+
+    return chunks;
+}
+
+// ==== BUILDER ====
+
+/**
+ * Dựng tin nhắn Telegram theo từng section: văn bản được escape theo parse mode,
+ * và khi quá dài sẽ được tách ở ranh giới section
+ */
+export class TelegramMessageBuilder {
+    private sections: string[] = [''];
+
+    constructor(
+        readonly parseMode: 'HTML' | 'MarkdownV2' = 'HTML',
+        private limit: number = TELEGRAM_MESSAGE_LIMIT
+    ) {}
+
+    /**
+     * Thêm văn bản thường (được escape)
+     */
+    text(value: string | number): this {
+        return this.raw(escapeText(value, this.parseMode));
+    }
+
+    /**
+     * Thêm nội dung đã định dạng sẵn (không escape)
+     */
+    raw(markup: string): this {
+        this.sections[this.sections.length - 1] += markup;
+        return this;
+    }
+
+    newline(): this {
+        return this.raw('\n');
+    }
+
+    bold(value: string | number): this {
+        return this.wrap(value, '<b>', '</b>', '*');
+    }
+
+    italic(value: string | number): this {
+        return this.wrap(value, '<i>', '</i>', '_');
+    }
+
+    code(value: string | number): this {
+        return this.parseMode === 'HTML'
+            ? this.raw(`<code>${escapeHtml(value)}</code>`)
+            : this.raw('`' + escapeMarkdownV2Code(value) + '`');
+    }
+
+    pre(value: string | number): this {
+        return this.parseMode === 'HTML'
+            ? this.raw(`<pre>${escapeHtml(value)}</pre>`)
+            : this.raw('```\n' + escapeMarkdownV2Code(value) + '\n```');
+    }
+
+    link(label: string | number, url: string): this {
+        return this.parseMode === 'HTML'
+            ? this.raw(`<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`)
+            : this.raw(`[${escapeMarkdownV2(label)}](${url.replace(/[)\\]/g, '\\$&')})`);
+    }
+
+    /**
+     * Bắt đầu section mới; tin nhắn chỉ được tách giữa các section (trừ khi một section vượt giới hạn)
+     */
+    section(markup: string = ''): this {
+        if (this.sections[this.sections.length - 1] !== '') {
+            this.sections.push('');
+        }
+        return this.raw(markup);
+    }
+
+    toString(): string {
+        return this.sections.filter(section => section !== '').join('');
+    }
+
+    /**
+     * Gộp các section thành những tin nhắn không vượt quá giới hạn, giữ nguyên thứ tự
+     */
+    build(): string[] {
+        const messages: string[] = [];
+        let current = '';
+
+        for (const section of this.sections) {
+            if (!section) continue;
+
+            if (current.length + section.length <= this.limit) {
+                current += section;
+                continue;
+            }
+
+            if (current.trim()) messages.push(current.trimEnd());
+            current = '';
+
+            if (section.length <= this.limit) {
+                current = section;
+            } else {
+                messages.push(...splitMessage(section, this.parseMode, this.limit));
+            }
+        }
+
+        if (current.trim()) messages.push(current.trimEnd());
+        return messages;
+    }
+
+    private wrap(value: string | number, htmlOpen: string, htmlClose: string, markdown: string): this {
+        return this.parseMode === 'HTML'
+            ? this.raw(htmlOpen + escapeHtml(value) + htmlClose)
+            : this.raw(markdown + escapeMarkdownV2(value) + markdown);
+    }
+}
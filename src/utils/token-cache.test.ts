@@ -0,0 +1,62 @@
+import { TokenCache } from "./token-cache";
+
+describe('TokenCache', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('gộp các lần lấy token đồng thời thành một request', async () => {
+        const cache = new TokenCache();
+        const fetcher = jest.fn(async () => ({ accessToken: 'token-1', expiresIn: 3600 }));
+
+        const tokens = await Promise.all([
+            cache.getToken('sa', fetcher),
+            cache.getToken('sa', fetcher),
+            cache.getToken('sa', fetcher)
+        ]);
+
+        expect(tokens).toEqual(['token-1', 'token-1', 'token-1']);
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('tái sử dụng token còn hạn và làm mới trước khi hết hạn', async () => {
+        jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+        const cache = new TokenCache(60);
+        let count = 0;
+        const fetcher = jest.fn(async () => ({ accessToken: `token-${++count}`, expiresIn: 3600 }));
+
+        expect(await cache.getToken('sa', fetcher)).toBe('token-1');
+
+        jest.setSystemTime(new Date('2024-01-01T00:58:00Z'));
+        expect(await cache.getToken('sa', fetcher)).toBe('token-1');
+
+        // Trong khoảng 60 giây trước khi hết hạn thì lấy token mới
+        jest.setSystemTime(new Date('2024-01-01T00:59:30Z'));
+        expect(await cache.getToken('sa', fetcher)).toBe('token-2');
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    it('không cache token khi lấy token thất bại', async () => {
+        const cache = new TokenCache();
+        const fetcher = jest.fn()
+            .mockRejectedValueOnce(new Error('network'))
+            .mockResolvedValueOnce({ accessToken: 'token-ok', expiresIn: 3600 });
+
+        await expect(cache.getToken('sa', fetcher)).rejects.toThrow('network');
+        expect(await cache.getToken('sa', fetcher)).toBe('token-ok');
+    });
+
+    it('giữ token riêng cho từng service account và xóa được bằng invalidate', async () => {
+        const cache = new TokenCache();
+        const fetcher = jest.fn(async () => ({ accessToken: 'token', expiresIn: 3600 }));
+
+        await cache.getToken('a', fetcher);
+        await cache.getToken('b', fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(2);
+
+        cache.invalidate('a');
+        await cache.getToken('a', fetcher);
+        await cache.getToken('b', fetcher);
+        expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+});
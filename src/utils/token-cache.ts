@@ -0,0 +1,76 @@
+import { logger } from "./logger";
+
+interface CachedToken {
+    accessToken: string;
+    expiresAt: number;
+}
+
+export interface FetchedToken {
+    accessToken: string;
+    expiresIn: number;
+}
+
+// Số giây trừ hao trước khi token thực sự hết hạn
+const DEFAULT_REFRESH_MARGIN_SECONDS = 60;
+
+/**
+ * Bộ nhớ đệm access token theo service account
+ * - Tái sử dụng token cho đến sát thời điểm hết hạn (expires_in)
+ * - Gộp các lần làm mới đồng thời thành một request duy nhất
+ */
+export class TokenCache {
+    private tokens = new Map<string, CachedToken>();
+    private inFlight = new Map<string, Promise<string>>();
+    private refreshMarginMs: number;
+
+    constructor(refreshMarginSeconds: number = DEFAULT_REFRESH_MARGIN_SECONDS) {
+        this.refreshMarginMs = refreshMarginSeconds * 1000;
+    }
+
+    /**
+     * Lấy token từ cache hoặc gọi fetcher để lấy token mới
+     * @param key Khóa định danh service account (ví dụ client_email + private_key_id)
+     * @param fetcher Hàm lấy token mới khi cache hết hạn
+     */
+    async getToken(key: string, fetcher: () => Promise<FetchedToken>): Promise<string> {
+        const cached = this.tokens.get(key);
+        if (cached && cached.expiresAt - this.refreshMarginMs > Date.now()) {
+            return cached.accessToken;
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            logger.debug(`Waiting for in-flight token refresh for ${key}`);
+            return pending;
+        }
+
+        const request = fetcher()
+            .then(({ accessToken, expiresIn }) => {
+                this.tokens.set(key, {
+                    accessToken,
+                    expiresAt: Date.now() + expiresIn * 1000
+                });
+                return accessToken;
+            })
+            .finally(() => {
+                this.inFlight.delete(key);
+            });
+
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    /**
+     * Xóa token khỏi cache (ví dụ khi API trả về 401)
+     */
+    invalidate(key?: string): void {
+        if (key) {
+            this.tokens.delete(key);
+        } else {
+            this.tokens.clear();
+        }
+    }
+}
+
+// Cache dùng chung giữa các instance GA4Service có cùng thông tin xác thực
+export const sharedTokenCache = new TokenCache();